@@ -0,0 +1,29 @@
+// config/disasterLifecycle.js
+// Severity scale and status lifecycle for disasters. disasterController
+// enforces these transitions whenever a disaster's status changes.
+
+export const SEVERITY = { MIN: 1, MAX: 5, DEFAULT: 3 };
+
+export const STATUSES = ['reported', 'verified', 'active', 'contained', 'resolved', 'archived'];
+
+export const INITIAL_STATUS = 'reported';
+
+// status -> statuses it may move to
+const TRANSITIONS = {
+  reported: ['verified', 'archived'],
+  verified: ['active', 'resolved', 'archived'],
+  active: ['contained', 'resolved'],
+  // A contained incident can flare up again, and a resolved one can be reopened
+  contained: ['active', 'resolved'],
+  resolved: ['active', 'archived'],
+  archived: [],
+};
+
+export const isValidStatus = (status) => STATUSES.includes(status);
+
+export const isValidSeverity = (severity) =>
+  Number.isInteger(severity) && severity >= SEVERITY.MIN && severity <= SEVERITY.MAX;
+
+export const getAllowedTransitions = (status) => [...(TRANSITIONS[status] || [])];
+
+export const canTransition = (from, to) => (TRANSITIONS[from] || []).includes(to);
@@ -0,0 +1,83 @@
+// config/permissions.js
+// Central role and permission model. Routes guard themselves with
+// requirePermission() and controllers use hasPermission() for checks that
+// depend on the record being touched (e.g. ownership).
+
+export const ROLES = {
+  ADMIN: 'admin',
+  COORDINATOR: 'coordinator',
+  RESPONDER: 'responder',
+  VERIFIER: 'verifier',
+  VIEWER: 'viewer',
+};
+
+// Role given to newly registered accounts
+export const DEFAULT_ROLE = ROLES.VIEWER;
+
+export const PERMISSIONS = {
+  DISASTER_CREATE: 'disaster:create',
+  DISASTER_UPDATE: 'disaster:update',
+  // Edit disasters owned by someone else
+  DISASTER_UPDATE_ANY: 'disaster:update:any',
+  DISASTER_DELETE: 'disaster:delete',
+  REPORT_CREATE: 'report:create',
+  REPORT_VERIFY: 'report:verify',
+  // See reports that a verifier rejected
+  REPORT_VIEW_HIDDEN: 'report:view:hidden',
+  // Create, edit and remove resources
+  RESOURCE_MANAGE: 'resource:manage',
+  RESOURCE_ALLOCATE: 'resource:allocate',
+  // See who is online in each disaster
+  PRESENCE_VIEW: 'presence:view',
+  // Bulk import disasters and resources from files
+  DATA_IMPORT: 'data:import',
+  // Edit the terms used to search social media for a disaster
+  SOCIAL_SEARCH_MANAGE: 'social:search:manage',
+  // See trending social media topics, including ones no disaster covers yet
+  SOCIAL_TRENDS_VIEW: 'social:trends:view',
+  // Operational metrics such as geocoding cache and rate limiter counters
+  METRICS_VIEW: 'metrics:view',
+  USER_MANAGE: 'user:manage',
+};
+
+const P = PERMISSIONS;
+
+/**
+ * Permission matrix: which permissions each role grants.
+ * Admins hold every permission.
+ */
+const ROLE_PERMISSIONS = {
+  [ROLES.ADMIN]: Object.values(PERMISSIONS),
+  [ROLES.COORDINATOR]: [
+    P.DISASTER_CREATE, P.DISASTER_UPDATE, P.DISASTER_UPDATE_ANY,
+    P.REPORT_CREATE, P.REPORT_VERIFY,
+    P.RESOURCE_MANAGE, P.RESOURCE_ALLOCATE,
+    P.PRESENCE_VIEW,
+    P.DATA_IMPORT,
+    P.SOCIAL_SEARCH_MANAGE, P.SOCIAL_TRENDS_VIEW,
+  ],
+  [ROLES.RESPONDER]: [
+    P.DISASTER_CREATE, P.DISASTER_UPDATE,
+    P.REPORT_CREATE,
+    P.RESOURCE_ALLOCATE,
+  ],
+  [ROLES.VERIFIER]: [
+    P.REPORT_CREATE, P.REPORT_VERIFY,
+  ],
+  [ROLES.VIEWER]: [
+    P.REPORT_CREATE,
+  ],
+};
+
+export const isValidRole = (role) => Object.values(ROLES).includes(role);
+
+/**
+ * Check whether a role grants a permission.
+ * @param {string} role
+ * @param {string} permission - One of PERMISSIONS
+ * @returns {boolean}
+ */
+export const hasPermission = (role, permission) =>
+  (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+export const getPermissionsForRole = (role) => [...(ROLE_PERMISSIONS[role] || [])];
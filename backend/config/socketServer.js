@@ -1,7 +1,9 @@
 // socketServer.js
-// TODO: Initialize and export Socket.IO server here.
 import { Server } from 'socket.io';
 import { logger } from '../utils/logger.js'; // Assuming you have a structured logger
+import { authService } from '../services/authService.js';
+import { presenceService } from '../services/presenceService.js';
+import { hasPermission, getPermissionsForRole, PERMISSIONS } from './permissions.js';
 
 /**
  * A holder object for the global Socket.IO server instance.
@@ -14,10 +16,204 @@ export const socketServer = {
   io: null,
 };
 
+// Limits so a single client can't make every publish expensive
+const MAX_SUBSCRIPTIONS_PER_SOCKET = 20;
+const MAX_ITEMS_PER_FILTER = 50;
+
+/**
+ * Name of the room that receives every event for one disaster.
+ * @param {string|number} disasterId
+ */
+export const disasterRoom = (disasterId) => `disaster:${disasterId}`;
+
+// Room of sockets watching who is online in a disaster
+const presenceRoom = (disasterId) => `presence:${disasterId}`;
+
+// Room holding every connection of one user, for events meant only for them
+const userRoom = (userId) => `user:${userId}`;
+
+// Room of every connection whose role grants a permission, for events only some roles may see
+const permissionRoom = (permission) => `permission:${permission}`;
+
+const DISASTER_ROOM_PREFIX = 'disaster:';
+
+const broadcastPresence = (disasterId) => {
+  socketServer.io?.to(presenceRoom(disasterId)).emit('presence_updated', {
+    disasterId,
+    users: presenceService.getPresence(disasterId),
+  });
+};
+
+/**
+ * Socket.IO middleware that authenticates the handshake with the same access
+ * token as the REST API, sent as `auth: { token }` or an Authorization header.
+ */
+const authenticateSocket = (socket, next) => {
+  const header = socket.handshake.headers['authorization'];
+  const token = socket.handshake.auth?.token
+    || (header && header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null);
+
+  if (!token) {
+    return next(new Error('Unauthorized: Bearer token is required'));
+  }
+
+  try {
+    const payload = authService.verifyAccessToken(token);
+    socket.data.user = { id: payload.sub, role: payload.role, username: payload.username };
+    next();
+  } catch (err) {
+    next(new Error(err.message));
+  }
+};
+
+/**
+ * Validate and normalize a subscription sent by a client.
+ * @param {Object} raw - { disasterIds?: Array, bbox?: [minLon, minLat, maxLon, maxLat], tags?: string[] }
+ * @returns {{disasterIds: string[], bbox: number[]|null, tags: string[]}}
+ * @throws {Error} when the subscription is malformed or empty
+ */
+const normalizeSubscription = (raw = {}) => {
+  const disasterIds = Array.isArray(raw.disasterIds)
+    ? raw.disasterIds.slice(0, MAX_ITEMS_PER_FILTER).map(String)
+    : [];
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags.slice(0, MAX_ITEMS_PER_FILTER).map(tag => String(tag).toLowerCase())
+    : [];
+
+  let bbox = null;
+  if (raw.bbox) {
+    const values = Array.isArray(raw.bbox) ? raw.bbox.map(Number) : [];
+    const [minLon, minLat, maxLon, maxLat] = values;
+    if (values.length !== 4 || values.some(isNaN) || minLat > maxLat || minLat < -90 || maxLat > 90) {
+      throw new Error('bbox must be [minLon, minLat, maxLon, maxLat]');
+    }
+    bbox = values;
+  }
+
+  if (disasterIds.length === 0 && tags.length === 0 && !bbox) {
+    throw new Error('Subscription needs at least one of disasterIds, bbox or tags');
+  }
+
+  return { disasterIds, bbox, tags };
+};
+
+// minLon > maxLon means the box crosses the antimeridian
+const isInBbox = ([minLon, minLat, maxLon, maxLat], lat, lon) => {
+  if (lat < minLat || lat > maxLat) return false;
+  return minLon <= maxLon ? lon >= minLon && lon <= maxLon : lon >= minLon || lon <= maxLon;
+};
+
+/**
+ * Whether an event described by `context` matches a socket's area or tag subscription.
+ * Disaster-id subscriptions are handled by rooms, so they are not checked here.
+ */
+const matchesSubscription = (subscription, context) => {
+  if (subscription.bbox && typeof context.latitude === 'number' && typeof context.longitude === 'number'
+    && isInBbox(subscription.bbox, context.latitude, context.longitude)) {
+    return true;
+  }
+  if (subscription.tags.length > 0 && Array.isArray(context.tags)) {
+    return context.tags.some(tag => subscription.tags.includes(String(tag).toLowerCase()));
+  }
+  return false;
+};
+
+// Keep the socket's disaster rooms, and its user's presence in them, in sync
+// with the union of its subscriptions
+const syncDisasterRooms = (socket) => {
+  const wanted = new Set();
+  for (const subscription of socket.data.subscriptions.values()) {
+    subscription.disasterIds.forEach(id => wanted.add(disasterRoom(id)));
+  }
+  for (const room of [...socket.rooms]) {
+    if (room.startsWith(DISASTER_ROOM_PREFIX) && !wanted.has(room)) {
+      socket.leave(room);
+      leavePresence(socket, room.slice(DISASTER_ROOM_PREFIX.length));
+    }
+  }
+  wanted.forEach(room => {
+    if (socket.rooms.has(room)) return;
+    socket.join(room);
+    const disasterId = room.slice(DISASTER_ROOM_PREFIX.length);
+    if (presenceService.join(disasterId, socket.data.user, socket.id)) broadcastPresence(disasterId);
+  });
+};
+
+const leavePresence = (socket, disasterId) => {
+  if (presenceService.leave(disasterId, socket.data.user.id, socket.id)) broadcastPresence(disasterId);
+};
+
+/**
+ * Emit an event to every client whose subscriptions match it: members of the
+ * disaster's room, plus sockets with a matching bounding box or tag filter.
+ * Each socket receives the event at most once.
+ *
+ * With `privileged`, matching sockets whose role grants its permission get
+ * its payload and all others get `payload`.
+ *
+ * @param {string} event - Event name, e.g. 'disaster_updated'
+ * @param {Object} payload - Event body
+ * @param {{disasterId?: string|number, latitude?: number, longitude?: number, tags?: string[]}} context
+ * @param {{privileged?: {permission: string, payload: Object}}} [options]
+ */
+export const emitToSubscribers = (event, payload, context = {}, { privileged } = {}) => {
+  const io = socketServer.io;
+  if (!io) return;
+
+  const targets = [];
+  if (context.disasterId !== undefined && context.disasterId !== null) {
+    targets.push(disasterRoom(context.disasterId));
+  }
+  for (const socket of io.sockets.sockets.values()) {
+    const subscriptions = socket.data.subscriptions;
+    if (!subscriptions) continue;
+    for (const subscription of subscriptions.values()) {
+      if (matchesSubscription(subscription, context)) {
+        // Every socket is automatically in a room named after its id
+        targets.push(socket.id);
+        break;
+      }
+    }
+  }
+
+  if (targets.length === 0) return;
+  if (!privileged) {
+    io.to(targets).emit(event, payload);
+    return;
+  }
+
+  const room = permissionRoom(privileged.permission);
+  io.to(targets).except(room).emit(event, payload);
+  // Socket.IO can only join rooms, so the privileged targets are picked out here
+  const holders = [...(io.sockets.adapter.rooms.get(room) || [])]
+    .filter(socketId => targets.some(target => target === socketId || io.sockets.adapter.rooms.get(target)?.has(socketId)));
+  if (holders.length > 0) io.to(holders).emit(event, privileged.payload);
+};
+
+/**
+ * Emit an event to every connection of one user (e.g. the result of a job they started).
+ * @param {string} userId
+ * @param {string} event
+ * @param {Object} payload
+ */
+export const emitToUser = (userId, event, payload) => {
+  socketServer.io?.to(userRoom(userId)).emit(event, payload);
+};
+
 /**
  * Initializes the Socket.IO server, attaches it to the provided HTTP server,
  * and configures it with CORS and basic event listeners.
  *
+ * Clients choose what they receive with:
+ *   socket.emit('subscribe', { key, disasterIds?, bbox?, tags? }, ack)
+ *   socket.emit('unsubscribe', { key }, ack)
+ * A socket can hold several subscriptions under different keys (e.g. one for
+ * the visible map area and one for an open disaster panel).
+ *
+ * Connections must authenticate with an access token. Users following a
+ * disaster by id count as present in it; holders of presence:view can
+ * 'watch_presence' to receive 'presence_updated' events.
+ *
  * @param {import('http').Server} httpServer - The Node.js HTTP server instance.
  * @returns {Server} The configured Socket.IO server instance.
  */
@@ -42,25 +238,83 @@ export const initSocketServer = (httpServer) => {
   // Now, any module importing `socketServer` will have access to this instance.
   socketServer.io = io;
 
+  io.use(authenticateSocket);
+
   // Set up a global listener for new client connections.
   io.on('connection', (socket) => {
     // Log the connection for debugging purposes.
-    logger.info(`New client connected: ${socket.id}`);
+    logger.info(`New client connected: ${socket.id}`, { userId: socket.data.user.id });
+    socket.data.subscriptions = new Map();
+    socket.join(userRoom(socket.data.user.id));
+    getPermissionsForRole(socket.data.user.role).forEach(permission => socket.join(permissionRoom(permission)));
+
+    socket.on('subscribe', (request = {}, ack) => {
+      const reply = typeof ack === 'function' ? ack : () => {};
+      const key = String(request.key || 'default');
+
+      if (!socket.data.subscriptions.has(key) && socket.data.subscriptions.size >= MAX_SUBSCRIPTIONS_PER_SOCKET) {
+        return reply({ ok: false, error: `At most ${MAX_SUBSCRIPTIONS_PER_SOCKET} subscriptions per connection` });
+      }
+
+      try {
+        const subscription = normalizeSubscription(request);
+        socket.data.subscriptions.set(key, subscription);
+        syncDisasterRooms(socket);
+        logger.info('Client subscribed', { socketId: socket.id, key, ...subscription });
+        reply({ ok: true, key, subscription });
+      } catch (err) {
+        reply({ ok: false, error: err.message });
+      }
+    });
+
+    socket.on('unsubscribe', (request = {}, ack) => {
+      const key = String(request.key || 'default');
+      socket.data.subscriptions.delete(key);
+      syncDisasterRooms(socket);
+      if (typeof ack === 'function') ack({ ok: true, key });
+    });
+
+    // Shorthand for clients that only follow a single disaster
+    socket.on('join_disaster_room', (disasterId) => {
+      socket.data.subscriptions.set(`room:${disasterId}`, { disasterIds: [String(disasterId)], bbox: null, tags: [] });
+      syncDisasterRooms(socket);
+      logger.info(`Client ${socket.id} joined room for disaster ${disasterId}`);
+    });
+
+    socket.on('leave_disaster_room', (disasterId) => {
+      socket.data.subscriptions.delete(`room:${disasterId}`);
+      syncDisasterRooms(socket);
+    });
+
+    socket.on('watch_presence', (disasterId, ack) => {
+      const reply = typeof ack === 'function' ? ack : () => {};
+      if (!hasPermission(socket.data.user.role, PERMISSIONS.PRESENCE_VIEW)) {
+        return reply({ ok: false, error: `Forbidden: Missing permission '${PERMISSIONS.PRESENCE_VIEW}'` });
+      }
+      socket.join(presenceRoom(disasterId));
+      reply({ ok: true, disasterId, users: presenceService.getPresence(disasterId) });
+    });
+
+    socket.on('unwatch_presence', (disasterId) => {
+      socket.leave(presenceRoom(disasterId));
+    });
+
+    // Rooms are still available while disconnecting, so presence can be cleaned up here
+    socket.on('disconnecting', () => {
+      for (const room of socket.rooms) {
+        if (room.startsWith(DISASTER_ROOM_PREFIX)) {
+          leavePresence(socket, room.slice(DISASTER_ROOM_PREFIX.length));
+        }
+      }
+    });
 
     // Set up a listener for when this specific client disconnects.
     socket.on('disconnect', () => {
       logger.info(`Client disconnected: ${socket.id}`);
     });
-
-    // You can add other global socket event listeners here if needed.
-    // For example, a heartbeat or a join-room event.
-    // socket.on('join_disaster_room', (disasterId) => {
-    //   socket.join(`disaster-${disasterId}`);
-    //   logger.info(`Client ${socket.id} joined room for disaster ${disasterId}`);
-    // });
   });
 
   logger.info('Socket.IO server initialized and attached to HTTP server.');
 
   return io;
-};
\ No newline at end of file
+};
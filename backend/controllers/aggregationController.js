@@ -1,25 +1,141 @@
 // src/controllers/aggregationController.js
 import { socialMediaService } from '../services/socialMediaService.js';
+import { socialMonitorService } from '../services/socialMonitorService.js';
+import { trendService } from '../services/trendService.js';
+import { buildSocialQuery, parseSearchTerms } from '../services/social/queryBuilder.js';
 import { scrapingService } from '../services/scrapingService.js';
 import { verificationService } from '../services/verificationService.js';
+import { verificationQueueService } from '../services/verificationQueueService.js';
 import supabase from '../config/supabaseClient.js';
 import { logger } from '../utils/logger.js';
 
+// Search terms a coordinator saved for a disaster's social media search;
+// null means they are built from the title and tags
+// alter table public.disasters
+//   add column social_search_terms text[] null;
+// (then recreate the disasters_with_coords view so its d.* picks the column up)
+
+const SOCIAL_QUERY_FIELDS = 'title, tags, location_name, social_search_terms';
+
+// The saved terms (null when automatic), the automatic ones a coordinator can start
+// from, and the search they produce together
+const describeSearchTerms = (disaster) => {
+  const { terms, synonyms, place, termSource } = buildSocialQuery(disaster);
+  return {
+    saved: disaster.social_search_terms || null,
+    automatic: buildSocialQuery({ ...disaster, social_search_terms: null }).terms,
+    effective: { terms, synonyms, place, termSource },
+  };
+};
+
+const notFound = () => {
+  const err = new Error('Disaster not found');
+  err.statusCode = 404;
+  return err;
+};
+
 // GET /disasters/:id/social-media
 export const getSocialMedia = async (req, res, next) => {
   const { id } = req.params;
   try {
-    // Fetch disaster to get keywords from its tags or title
-    const { data: disaster, error } = await supabase.from('disasters').select('title, location_name').eq('id', id).single();
-    if (error || !disaster) {
-      const err = new Error('Disaster not found');
-      err.statusCode = 404;
-      return next(err);
-    }
-    
-    const keywords = [ ...(disaster.tags || []), disaster.title ];
-    const reports = await socialMediaService.getReports([disaster.title]);
-    res.status(200).json(reports);
+    const { data: disaster, error } = await supabase.from('disasters').select(SOCIAL_QUERY_FIELDS).eq('id', id).single();
+    if (error || !disaster) return next(notFound());
+
+    // Posts from every enabled connector, merged and ranked; connectors that
+    // failed are listed in failedConnectors rather than failing the request
+    const result = await socialMediaService.search(buildSocialQuery(disaster));
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /disasters/:id/social-search-terms
+export const getSocialSearchTerms = async (req, res, next) => {
+  try {
+    const { data: disaster, error } = await supabase.from('disasters').select(SOCIAL_QUERY_FIELDS).eq('id', req.params.id).single();
+    if (error || !disaster) return next(notFound());
+    res.status(200).json(describeSearchTerms(disaster));
+  } catch (err) {
+    next(err);
+  }
+};
+
+// PUT /disasters/:id/social-search-terms ({ terms: string[] | null }): replaces the terms the
+// social media search and monitor use for this disaster; null or [] goes back to automatic
+export const updateSocialSearchTerms = async (req, res, next) => {
+  let terms;
+  try {
+    terms = parseSearchTerms(req.body?.terms);
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('disasters')
+      .select('social_search_terms, audit_trail')
+      .eq('id', req.params.id)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+    if (!existing) return next(notFound());
+
+    const auditEntry = {
+      action: 'social_search_terms_change',
+      user_id: req.user.id,
+      timestamp: new Date().toISOString(),
+      from: existing.social_search_terms || null,
+      to: terms,
+    };
+    const { data: disaster, error } = await supabase
+      .from('disasters')
+      .update({ social_search_terms: terms, audit_trail: [...(existing.audit_trail || []), auditEntry] })
+      .eq('id', req.params.id)
+      .select(SOCIAL_QUERY_FIELDS)
+      .single();
+    if (error) throw error;
+
+    logger.info('Social search terms updated', { disasterId: req.params.id, userId: req.user.id, terms });
+    res.status(200).json(describeSearchTerms(disaster));
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /disasters/:id/social-posts: posts the social media monitor has stored for the disaster,
+// newest first, filtered by q (full text), platform, category, urgency and from/to. Like GET /disasters, the
+// cursor for the next page is sent in the X-Next-Cursor header.
+export const getSocialPostArchive = async (req, res, next) => {
+  let filters;
+  try {
+    filters = socialMonitorService.parseArchiveFilters(req.query);
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    const { data, nextCursor } = await socialMonitorService.searchArchive(req.params.id, filters);
+    if (nextCursor) res.set('X-Next-Cursor', nextCursor);
+    res.status(200).json(data);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /social/trending: hashtags and disaster words spiking in the stored posts, grouped into topics.
+// window is the window length in minutes and baseline the number of earlier windows to compare with;
+// lat/lon/radius or bbox limit the posts to an area. Topics whose posts mostly belong to no disaster
+// are flagged as unlinked: possibly an incident nobody has filed yet.
+export const getTrendingTopics = async (req, res, next) => {
+  let filters;
+  try {
+    filters = trendService.parseTrendFilters(req.query);
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    res.status(200).json(await trendService.detectTrends(filters));
   } catch (err) {
     next(err);
   }
@@ -35,9 +151,12 @@ export const getOfficialUpdates = async (req, res, next) => {
   }
 };
 
-// POST /verify-image
+// POST /verify-image ({ imageUrl, disaster_id? }): queues the check and answers with the job
+// right away. With a disaster, the image's EXIF capture time and GPS position are checked
+// against the disaster's date and location. Poll GET /verify-image/jobs/:id or listen for
+// 'verification_job_updated' on Socket.IO for progress and the result.
 export const verifyImage = async (req, res, next) => {
-  const { imageUrl } = req.body;
+  const { imageUrl, disaster_id } = req.body;
   if (!imageUrl) {
     const error = new Error('imageUrl is required in the request body.');
     error.statusCode = 400;
@@ -45,9 +164,81 @@ export const verifyImage = async (req, res, next) => {
   }
   
   try {
-    const result = await verificationService.verifyImageSimple(imageUrl);
+    const job = await verificationQueueService.enqueueImage({ imageUrl, disasterId: disaster_id, requestedBy: req.user.id });
+    res.status(202).json({ jobId: job.id, status: job.status, job });
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /verify-image/jobs/:id
+export const getVerificationJob = async (req, res, next) => {
+  try {
+    const job = await verificationQueueService.getJob(req.params.id);
+    if (!job) {
+      const error = new Error('Verification job not found');
+      error.statusCode = 404;
+      return next(error);
+    }
+    res.status(200).json(job);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /verify-image/jobs?batch_id=: every job of a batch started by POST /disasters/:id/verify-reports
+export const listVerificationJobs = async (req, res, next) => {
+  const { batch_id } = req.query;
+  if (!batch_id) {
+    const error = new Error('batch_id is required.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const jobs = await verificationQueueService.listBatch(String(batch_id));
+    res.status(200).json(jobs);
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /disasters/:id/verify-reports: queue every pending report with an image for verification
+export const verifyDisasterReports = async (req, res, next) => {
+  const { id } = req.params;
+  try {
+    const { data: disaster, error } = await supabase.from('disasters').select('id').eq('id', id).maybeSingle();
+    if (error) throw error;
+    if (!disaster) {
+      const notFound = new Error('Disaster not found');
+      notFound.statusCode = 404;
+      return next(notFound);
+    }
+
+    const { batchId, jobs, skipped } = await verificationQueueService.enqueueDisasterReports(id, { requestedBy: req.user.id });
+    res.status(202).json({ batchId, queued: jobs.length, skipped, jobs });
+  } catch (err) {
+    logger.error('Error queueing disaster report verification', { disasterId: id, error: err.message });
+    next(err);
+  }
+};
+
+// POST /verify-image/similar (multipart with an "image" file, or JSON with imageUrl)
+// Earlier report and /verify-image submissions that look like the given image
+export const findSimilarImages = async (req, res, next) => {
+  const { imageUrl } = req.body;
+  if (!req.file && !imageUrl) {
+    const error = new Error('Send an image file in the "image" field or an imageUrl.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const imageBuffer = req.file ? req.file.buffer : (await verificationService.downloadImage(imageUrl)).buffer;
+    const result = await verificationService.findSimilarImages(imageBuffer);
+    logger.info('Similar image lookup', { matches: result.matches.length, source: req.file ? 'upload' : 'url' });
     res.status(200).json(result);
   } catch (err) {
     next(err);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,128 @@
+// src/controllers/authController.js
+import { authService } from '../services/authService.js';
+import { getPermissionsForRole } from '../config/permissions.js';
+import { logger } from '../utils/logger.js';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// The signed-in user plus the permissions their role grants, so clients can adapt their UI
+const toSessionUser = (user) => ({
+  ...authService.toPublicUser(user),
+  permissions: getPermissionsForRole(user.role),
+});
+
+// POST /auth/register
+export const register = async (req, res, next) => {
+  const { username, password } = req.body;
+
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    const error = new Error('Username and password are required.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  if (!USERNAME_PATTERN.test(username)) {
+    const error = new Error('Username must be 3-32 characters of letters, numbers, dots, dashes or underscores.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    const error = new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const user = await authService.createUser({ username, password });
+    const tokens = authService.issueTokens(user);
+    res.status(201).json({ user: toSessionUser(user), ...tokens });
+  } catch (err) {
+    logger.error('Error registering user', { error: err.message, username });
+    next(err);
+  }
+};
+
+// POST /auth/login
+export const login = async (req, res, next) => {
+  const { username, password } = req.body;
+
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    const error = new Error('Username and password are required.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const user = await authService.findUserByUsername(username);
+    // Use the same message for unknown users and wrong passwords so usernames can't be probed
+    if (!user || !(await authService.verifyPassword(password, user.password_hash))) {
+      const error = new Error('Unauthorized: Invalid username or password');
+      error.statusCode = 401;
+      return next(error);
+    }
+
+    const tokens = authService.issueTokens(user);
+    logger.info('User logged in', { userId: user.id });
+    res.status(200).json({ user: toSessionUser(user), ...tokens });
+  } catch (err) {
+    logger.error('Error logging in', { error: err.message, username });
+    next(err);
+  }
+};
+
+// POST /auth/refresh
+export const refresh = async (req, res, next) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    const error = new Error('refreshToken is required in the request body.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const payload = authService.verifyRefreshToken(refreshToken);
+    const user = await authService.findUserById(payload.sub);
+
+    if (!user || (user.token_version || 0) !== payload.ver) {
+      const error = new Error('Unauthorized: Refresh token has been revoked');
+      error.statusCode = 401;
+      return next(error);
+    }
+
+    res.status(200).json({ user: toSessionUser(user), ...authService.issueTokens(user) });
+  } catch (err) {
+    next(err);
+  }
+};
+
+// POST /auth/logout
+export const logout = async (req, res, next) => {
+  try {
+    const user = await authService.findUserById(req.user.id);
+    if (user) {
+      await authService.revokeRefreshTokens(user);
+    }
+    logger.info('User logged out', { userId: req.user.id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+};
+
+// GET /auth/me
+export const me = async (req, res, next) => {
+  try {
+    const user = await authService.findUserById(req.user.id);
+    if (!user) {
+      const error = new Error('User not found');
+      error.statusCode = 404;
+      return next(error);
+    }
+    res.status(200).json(toSessionUser(user));
+  } catch (err) {
+    next(err);
+  }
+};
@@ -1,13 +1,158 @@
 // src/controllers/disasterController.js
 import supabase from '../config/supabaseClient.js';
-import { socketServer } from '../config/socketServer.js';
+import { realtimeService, EVENTS } from '../services/realtimeService.js';
 import { logger } from '../utils/logger.js';
-import { extractAndGeocode } from '../services/locationService.js';
+import {
+  LOCATION_ROLES, extractAndGeocodeAll, extractLocationCandidates, geocodeLocationName, toDisasterLocationColumns,
+} from '../services/locationService.js';
+import { geocodingService } from '../services/geocodingService.js';
+import { hasPermission, PERMISSIONS } from '../config/permissions.js';
+import { presenceService } from '../services/presenceService.js';
+import { scrapingService } from '../services/scrapingService.js';
+import { spatialQueryService } from '../services/spatialQueryService.js';
+import {
+  SEVERITY, INITIAL_STATUS, isValidStatus, isValidSeverity, canTransition, getAllowedTransitions,
+} from '../config/disasterLifecycle.js';
+
+// alter table public.disasters
+//   add column severity smallint not null default 3 check (severity between 1 and 5),
+//   add column status text not null default 'reported'
+//     check (status in ('reported', 'verified', 'active', 'contained', 'resolved', 'archived'));
+//
+// Which geocoding provider placed the disaster, and its confidence (0-1)
+// alter table public.disasters
+//   add column geocode_provider text null,
+//   add column geocode_confidence real null;
+//
+// Every place mentioned in the description with its role, and all of them as one geometry
+// alter table public.disasters
+//   add column locations jsonb not null default '[]'::jsonb,
+//   add column affected_area geography(MultiPoint, 4326) null;
+
+const MAX_LOCATIONS = 20;
+// Shorter queries match too many places to be worth a geocoder request
+const MIN_LOCATION_QUERY_LENGTH = 3;
+
+/**
+ * Validate places picked by the reporter: [{ name, role, latitude, longitude, provider?, confidence? }].
+ * @returns {Array|null} The places, or null when none were sent
+ * @throws {Error} with statusCode 400 when malformed
+ */
+const parseLocationSelections = (locations) => {
+  if (locations === undefined || locations === null) return null;
+  const invalid = (message) => {
+    const error = new Error(message);
+    error.statusCode = 400;
+    return error;
+  };
+
+  if (!Array.isArray(locations) || locations.length > MAX_LOCATIONS) {
+    throw invalid(`locations must be an array of at most ${MAX_LOCATIONS} places.`);
+  }
+  return locations.map((location, index) => {
+    const latitude = Number(location?.latitude);
+    const longitude = Number(location?.longitude);
+    if (!location?.name || typeof location.name !== 'string' || !LOCATION_ROLES.includes(location.role)) {
+      throw invalid(`locations[${index}] needs a name and a role (${LOCATION_ROLES.join(', ')}).`);
+    }
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw invalid(`locations[${index}] has an invalid latitude or longitude.`);
+    }
+    const confidence = location.confidence === undefined || location.confidence === null ? null : Number(location.confidence);
+    return {
+      name: location.name.trim(),
+      role: location.role,
+      latitude,
+      longitude,
+      provider: typeof location.provider === 'string' ? location.provider : null,
+      confidence: Number.isFinite(confidence) ? confidence : null,
+    };
+  });
+};
+
+/**
+ * Work out the location a client set explicitly, from (in order of precedence)
+ * `locations`, `latitude`/`longitude` (with an optional `location_name`) or an
+ * `address` to geocode.
+ * @param {Object} body - Request body
+ * @returns {Promise<Array|null>} The places, or null when the client set none
+ * @throws {Error} with statusCode 400 when malformed, 422 when the address can't be found
+ */
+const resolveExplicitLocations = async (body) => {
+  const { locations, latitude, longitude, location_name, address } = body;
+  if (locations !== undefined && locations !== null) return parseLocationSelections(locations);
+
+  if (latitude !== undefined || longitude !== undefined) {
+    const [place] = parseLocationSelections([{
+      name: location_name || `${latitude}, ${longitude}`,
+      role: 'primary',
+      latitude,
+      longitude,
+      provider: 'manual',
+      confidence: 1,
+    }]);
+    return [place];
+  }
+
+  if (address !== undefined) {
+    if (!address || typeof address !== 'string') {
+      const error = new Error('address must be a non-empty string.');
+      error.statusCode = 400;
+      throw error;
+    }
+    const geocoded = await geocodeLocationName(address);
+    if (!geocoded) {
+      const error = new Error(`Could not find a location for "${address}".`);
+      error.statusCode = 422;
+      throw error;
+    }
+    return [{ name: address.trim(), role: 'primary', ...geocoded }];
+  }
+
+  return null;
+};
+
+// GET /disasters/locations/search?q=: address autocomplete for picking a location by hand
+export const searchLocations = async (req, res, next) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (query.length < MIN_LOCATION_QUERY_LENGTH) {
+    const error = new Error(`q must be at least ${MIN_LOCATION_QUERY_LENGTH} characters.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const candidates = await geocodingService.findCandidates(query);
+    res.status(200).json(candidates);
+  } catch (err) {
+    logger.error('Error searching locations', { query, error: err.message });
+    next(err);
+  }
+};
+
+// POST /disasters/locations/preview: the places in a description and the geocoder's candidates for each
+export const previewLocations = async (req, res, next) => {
+  const { description } = req.body;
+  if (!description || typeof description !== 'string') {
+    const error = new Error('Description is required.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const locations = await extractLocationCandidates(description);
+    res.status(200).json({ locations });
+  } catch (err) {
+    logger.error('Error previewing disaster locations', { error: err.message });
+    next(err);
+  }
+};
 
 // CREATE a new disaster
 export const createDisaster = async (req, res, next) => {
   // FIX: Destructure 'tags' as an array, not 'tag' as a string.
-  const { title, description, tags } = req.body;
+  const { title, description, tags, severity = SEVERITY.DEFAULT } = req.body;
+  let explicitLocations;
   const owner_id = req.user.id;
 
   // FIX: Updated validation to check for a non-empty array of tags.
@@ -17,6 +162,18 @@ export const createDisaster = async (req, res, next) => {
     return next(error);
   }
 
+  if (!isValidSeverity(severity)) {
+    const error = new Error(`Severity must be an integer from ${SEVERITY.MIN} to ${SEVERITY.MAX}.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    explicitLocations = await resolveExplicitLocations(req.body);
+  } catch (validationError) {
+    return next(validationError);
+  }
+
   // FIX: Corrected typo from 'anditTrail' to 'auditTrail'
   const auditTrail = [{
     action: 'create',
@@ -25,24 +182,34 @@ export const createDisaster = async (req, res, next) => {
   }];
 
   try {
-    const locationData = await extractAndGeocode(description);
-    let locationName = null;
-    let locationPoint = null;
-    if (locationData) {
-        locationName  = locationData.locationName;
-        // FIX: Use space, not comma, and order is lon lat
-        locationPoint = `POINT(${locationData.lon} ${locationData.lat})`;
+    // A location set by the reporter wins; extraction from the description is only the fallback
+    const locations = explicitLocations && explicitLocations.length > 0
+      ? explicitLocations
+      : await extractAndGeocodeAll(description);
+    if (locations.length === 0) {
+      logger.warn('Disaster created without a location', { title, ownerId: owner_id });
     }
+    const locationColumns = toDisasterLocationColumns(locations);
     const { data, error } = await supabase
       .from('disasters')
       // FIX: The object keys must match the column names in your database ('tags').
-      .insert({ title, description, tags, owner_id, audit_trail: auditTrail, location_name: locationName, location: locationPoint })
+      .insert({
+        title, description, tags, severity, status: INITIAL_STATUS, owner_id, audit_trail: auditTrail,
+        ...locationColumns,
+      })
       .select()
       .single();
 
     if (error) throw error;
 
-    socketServer.io.emit('disaster_updated', { type: 'CREATE', payload: data });
+    // Send the same shape as disasters_with_coords so map clients can place the marker
+    const primary = locationColumns.locations.find(location => location.role === 'primary');
+    const coords = primary ? { latitude: primary.latitude, longitude: primary.longitude } : {};
+    realtimeService.publish(
+      EVENTS.DISASTER_UPDATED,
+      { type: 'CREATE', payload: { ...data, ...coords } },
+      { disasterId: data.id, tags: data.tags, ...coords }
+    );
     logger.info('Disaster created successfully', { disasterId: data.id, ownerId: owner_id });
     res.status(201).json(data);
 
@@ -52,23 +219,21 @@ export const createDisaster = async (req, res, next) => {
   }
 };
 
-// GET all disasters (with optional tag filtering)
+// GET disasters, filtered by area, date range, tags, status and text (see spatialQueryService.parseFilters).
+// The body stays a plain array; the cursor for the next page is sent in the X-Next-Cursor header.
 export const getAllDisasters = async (req, res, next) => {
-  const { tag } = req.query;
+  let filters;
   try {
-    let query = supabase
-      .from('disasters_with_coords')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (tag) {
-      query = query.contains('tags', [tag]);
-    }
+    filters = spatialQueryService.parseFilters(req.query);
+  } catch (validationError) {
+    return next(validationError);
+  }
 
-    const { data, error } = await query;
-    if (error) throw error;
+  try {
+    const { data, nextCursor } = await spatialQueryService.searchDisasters(filters);
 
-    logger.info('Fetched all disasters', { count: data.length, filterTag: tag || 'none' });
+    if (nextCursor) res.set('X-Next-Cursor', nextCursor);
+    logger.info('Fetched disasters', { count: data.length, hasMore: Boolean(nextCursor), filters: Object.keys(filters) });
     res.status(200).json(data);
   } catch (dbError) {
     logger.error('Database error fetching disasters', { error: dbError.message });
@@ -80,14 +245,33 @@ export const getAllDisasters = async (req, res, next) => {
 export const updateDisaster = async (req, res, next) => {
   const { id } = req.params;
   // FIX: Use 'tags' consistently.
-  const { title, description, tags } = req.body;
+  const { title, description, tags, severity, status } = req.body;
   const user = req.user;
+  let explicitLocations;
+
+  if (severity !== undefined && !isValidSeverity(severity)) {
+    const error = new Error(`Severity must be an integer from ${SEVERITY.MIN} to ${SEVERITY.MAX}.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  if (status !== undefined && !isValidStatus(status)) {
+    const error = new Error(`Invalid status '${status}'.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    explicitLocations = await resolveExplicitLocations(req.body);
+  } catch (validationError) {
+    return next(validationError);
+  }
 
   try {
     // 1. Fetch the record to authorize and get audit trail
     const { data: existing, error: fetchError } = await supabase
       .from('disasters')
-      .select('owner_id, audit_trail')
+      .select('owner_id, audit_trail, status, severity, location_name')
       .eq('id', id)
       .single();
 
@@ -99,32 +283,60 @@ export const updateDisaster = async (req, res, next) => {
     }
 
     // 2. Authorize
-    if (user.role !== 'admin' && existing.owner_id !== user.id) {
-        const error = new Error('Forbidden: You do not have permission to edit this disaster.');
+    if (existing.owner_id !== user.id && !hasPermission(user.role, PERMISSIONS.DISASTER_UPDATE_ANY)) {
+        const error = new Error(`Forbidden: Missing permission '${PERMISSIONS.DISASTER_UPDATE_ANY}' to edit a disaster you do not own.`);
         error.statusCode = 403;
+        error.details = { missingPermission: PERMISSIONS.DISASTER_UPDATE_ANY, role: user.role };
         return next(error);
     }
     
-    // 3. Prepare update
-    const newAuditEntry = {
+    // 3. Enforce the status lifecycle
+    const statusChanged = status !== undefined && status !== existing.status;
+    if (statusChanged && !canTransition(existing.status, status)) {
+        const allowed = getAllowedTransitions(existing.status);
+        const error = new Error(`Cannot move a disaster from '${existing.status}' to '${status}'.`);
+        error.statusCode = 409;
+        error.details = { from: existing.status, to: status, allowed };
+        return next(error);
+    }
+
+    // 4. Prepare update
+    const timestamp = new Date().toISOString();
+    const newAuditEntries = [{
         action: 'update',
         user_id: user.id,
-        timestamp: new Date().toISOString()
-    };
-    const updatedAuditTrail = [...existing.audit_trail, newAuditEntry];
+        timestamp
+    }];
+    if (statusChanged) {
+        newAuditEntries.push({ action: 'status_change', user_id: user.id, timestamp, from: existing.status, to: status });
+    }
+    if (severity !== undefined && severity !== existing.severity) {
+        newAuditEntries.push({ action: 'severity_change', user_id: user.id, timestamp, from: existing.severity, to: severity });
+    }
+    // An empty `locations` array clears the location
+    const locationColumns = explicitLocations ? toDisasterLocationColumns(explicitLocations) : {};
+    if (explicitLocations) {
+        newAuditEntries.push({ action: 'location_change', user_id: user.id, timestamp, from: existing.location_name, to: locationColumns.location_name });
+    }
+    const updatedAuditTrail = [...(existing.audit_trail || []), ...newAuditEntries];
 
-    // 4. Perform update
+    // 5. Perform update
     const { data, error } = await supabase
       .from('disasters')
       // FIX: Use 'tags' to match the database column.
-      .update({ title, description, tags, audit_trail: updatedAuditTrail })
+      .update({ title, description, tags, severity, status, ...locationColumns, audit_trail: updatedAuditTrail })
       .eq('id', id)
       .select()
       .single();
       
     if (error) throw error;
 
-    socketServer.io.emit('disaster_updated', { type: 'UPDATE', payload: data });
+    const context = await realtimeService.getDisasterContext(data.id);
+    realtimeService.publish(
+      EVENTS.DISASTER_UPDATED,
+      { type: 'UPDATE', payload: { ...data, latitude: context.latitude, longitude: context.longitude } },
+      context
+    );
     logger.info('Disaster updated successfully', { disasterId: data.id, userId: user.id });
     res.status(200).json(data);
 
@@ -135,25 +347,20 @@ export const updateDisaster = async (req, res, next) => {
 };
 
 
-// DELETE a disaster (Admin only)
+// DELETE a disaster (requires disaster:delete, checked by the route guard)
 export const deleteDisaster = async (req, res, next) => {
   const { id } = req.params;
   const user = req.user;
 
-  // FIX: Simplified authorization check to be more direct.
-  if (user.role !== 'admin') {
-    const error = new Error('Forbidden: Only admins can delete disasters.');
-    error.statusCode = 403;
-    return next(error);
-  }
-
   try {
-    // We don't need to fetch before deleting if only admins can do it.
+    // The route guard already checked disaster:delete; we only look the disaster up
+    // first so area and tag subscribers still hear about the deletion.
+    const context = await realtimeService.getDisasterContext(id);
     // The .eq('id', id) ensures we only delete the correct one.
     const { error } = await supabase.from('disasters').delete().eq('id', id);
     if (error) throw error;
 
-    socketServer.io.emit('disaster_updated', { type: 'DELETE', payload: { id: parseInt(id) } }); // Ensure ID is a number if needed by frontend
+    realtimeService.publish(EVENTS.DISASTER_UPDATED, { type: 'DELETE', payload: { id: parseInt(id) } }, context); // Ensure ID is a number if needed by frontend
     logger.warn('Disaster deleted', { disasterId: id, adminId: user.id });
 
     // FIX: Use 204 No Content for successful deletions. Do not send a body.
@@ -163,4 +370,71 @@ export const deleteDisaster = async (req, res, next) => {
     logger.error('Error deleting disaster', { disasterId: id, error: dbError.message });
     next(dbError);
   }
-};
\ No newline at end of file
+};
+
+// GET /disasters/:id/presence (who currently has the disaster open)
+export const getDisasterPresence = (req, res) => {
+  const { id } = req.params;
+  res.status(200).json({ disasterId: id, users: presenceService.getPresence(id) });
+};
+
+// Official update filters for a disaster: its location name plus any disaster types named in its tags
+const getOfficialUpdateFilters = (disaster) => {
+  const knownTypes = Object.keys(scrapingService.DISASTER_KEYWORDS);
+  const disasterTypes = (disaster.tags || []).map(tag => tag.toLowerCase()).filter(tag => knownTypes.includes(tag));
+  const keywords = disaster.location_name
+    ? disaster.location_name.split(',').map(part => part.trim()).filter(Boolean).slice(0, 1)
+    : [];
+  return { disasterTypes, keywords };
+};
+
+// GET /disasters/:id/timeline
+export const getDisasterTimeline = async (req, res, next) => {
+  const { id } = req.params;
+  try {
+    const { data: disaster, error } = await supabase
+      .from('disasters')
+      .select('id, title, tags, location_name, created_at, audit_trail')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!disaster) {
+      const notFound = new Error('Disaster not found');
+      notFound.statusCode = 404;
+      return next(notFound);
+    }
+
+    const { data: reports, error: reportsError } = await supabase
+      .from('reports')
+      .select('id, created_at, user_id, content, image_url, verification_status')
+      .eq('disaster_id', id)
+      .neq('verification_status', 'rejected');
+
+    if (reportsError) throw reportsError;
+
+    // Official updates are best-effort: a FEMA outage shouldn't break the timeline
+    const filters = getOfficialUpdateFilters(disaster);
+    const officialUpdates = filters.disasterTypes.length > 0 || filters.keywords.length > 0
+      ? await scrapingService.getOfficialUpdates({ count: 20, ...filters })
+      : [];
+
+    const entries = [
+      ...(disaster.audit_trail || []).map(entry => ({
+        type: entry.action === 'status_change' ? 'status_change' : 'audit',
+        timestamp: entry.timestamp,
+        ...entry,
+      })),
+      ...reports.map(report => ({ type: 'report', timestamp: report.created_at, report })),
+      ...officialUpdates
+        .filter(update => new Date(update.pubDate) >= new Date(disaster.created_at))
+        .map(update => ({ type: 'official_update', timestamp: new Date(update.pubDate).toISOString(), update })),
+    ].sort((a, b) => new Date(a.timestamp) - new Date(b.timestamp));
+
+    logger.info('Built disaster timeline', { disasterId: id, entries: entries.length });
+    res.status(200).json(entries);
+  } catch (dbError) {
+    logger.error('Error building disaster timeline', { disasterId: id, error: dbError.message });
+    next(dbError);
+  }
+};
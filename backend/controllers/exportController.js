@@ -0,0 +1,212 @@
+// src/controllers/exportController.js
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+import { hasPermission, PERMISSIONS } from '../config/permissions.js';
+import { spatialQueryService } from '../services/spatialQueryService.js';
+import { exportService, EXPORT_FORMATS } from '../services/exportService.js';
+
+const MAX_EXPORT_ROWS = 10000;
+const REPORT_PAGE_SIZE = 1000;
+// Keeps `in.(...)` filters well within URL length limits
+const ID_CHUNK_SIZE = 200;
+
+// Query parameters that select reports by the disaster they belong to
+const DISASTER_FILTER_PARAMS = ['lat', 'lon', 'radius', 'bbox', 'polygon', 'tags', 'tag', 'tag_mode', 'status', 'min_severity', 'q'];
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+const parseFormat = (format = 'geojson') => {
+  if (!EXPORT_FORMATS[format]) {
+    throw badRequest(`format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}.`);
+  }
+  return format;
+};
+
+const chunk = (items, size) => {
+  const chunks = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+/**
+ * Serialize rows in the requested format and send them as a file download.
+ * @param {import('express').Response} res
+ * @param {string} format - Key of EXPORT_FORMATS
+ * @param {string} dataset - Used for the file and KML document names
+ * @param {Object[]} rows
+ * @param {{titleOf: Function, descriptionOf: Function, truncated: boolean}} options
+ */
+const sendExport = (res, format, dataset, rows, { titleOf, descriptionOf, truncated }) => {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const body = format === 'geojson' ? exportService.toGeoJSON(rows)
+    : format === 'kml' ? exportService.toKML(rows, { name: dataset, titleOf, descriptionOf })
+      : exportService.toCSV(rows);
+
+  const date = new Date().toISOString().slice(0, 10);
+  res.set('Content-Type', contentType);
+  res.set('Content-Disposition', `attachment; filename="${dataset}-${date}.${extension}"`);
+  if (truncated) res.set('X-Export-Truncated', 'true');
+  res.status(200).send(body);
+};
+
+// GET /export/disasters?format=geojson|kml|csv, with the same filters as GET /disasters
+export const exportDisasters = async (req, res, next) => {
+  let format;
+  let filters;
+  try {
+    format = parseFormat(req.query.format);
+    filters = spatialQueryService.parseFilters(req.query);
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    const { data, truncated } = await spatialQueryService.collectAll('disasters', filters);
+    logger.info('Exporting disasters', { format, count: data.length, truncated });
+    sendExport(res, format, 'disasters', data, {
+      titleOf: row => row.title,
+      descriptionOf: row => row.description,
+      truncated,
+    });
+  } catch (dbError) {
+    logger.error('Error exporting disasters', { error: dbError.message });
+    next(dbError);
+  }
+};
+
+// GET /export/resources?format=geojson|kml|csv, with the same filters as GET /resources
+export const exportResources = async (req, res, next) => {
+  let format;
+  let filters;
+  try {
+    format = parseFormat(req.query.format);
+    filters = spatialQueryService.parseFilters(req.query, 'resources');
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    const { data, truncated } = await spatialQueryService.collectAll('resources', filters);
+    logger.info('Exporting resources', { format, count: data.length, truncated });
+    sendExport(res, format, 'resources', data, {
+      titleOf: row => row.name,
+      descriptionOf: row => `${row.resource_type}: ${row.quantity}${row.unit ? ` ${row.unit}` : ''}`,
+      truncated,
+    });
+  } catch (dbError) {
+    logger.error('Error exporting resources', { error: dbError.message });
+    next(dbError);
+  }
+};
+
+// Page through reports, optionally restricted to a set of disasters, up to MAX_EXPORT_ROWS
+const fetchReports = async ({ disasterIds, statuses, from, to, includeHidden }) => {
+  const rows = [];
+  const groups = disasterIds ? chunk(disasterIds, ID_CHUNK_SIZE) : [null];
+
+  for (const group of groups) {
+    for (let offset = 0; rows.length < MAX_EXPORT_ROWS; offset += REPORT_PAGE_SIZE) {
+      let query = supabase
+        .from('reports')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + REPORT_PAGE_SIZE - 1);
+
+      if (group) query = query.in('disaster_id', group);
+      if (statuses.length > 0) query = query.in('verification_status', statuses);
+      if (!includeHidden) query = query.neq('verification_status', 'rejected');
+      if (from) query = query.gte('created_at', from);
+      if (to) query = query.lte('created_at', to);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      rows.push(...data);
+      if (data.length < REPORT_PAGE_SIZE) break;
+    }
+  }
+
+  return { data: rows.slice(0, MAX_EXPORT_ROWS), truncated: rows.length >= MAX_EXPORT_ROWS };
+};
+
+// Reports have no location of their own, so they are placed at their disaster
+const fetchDisasterLocations = async (ids) => {
+  const locations = new Map();
+  for (const group of chunk(ids, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('disasters_with_coords')
+      .select('id, title, latitude, longitude')
+      .in('id', group);
+
+    if (error) throw error;
+    data.forEach(disaster => locations.set(String(disaster.id), disaster));
+  }
+  return locations;
+};
+
+// GET /export/reports?format=geojson|kml|csv
+// Takes the report list filters (disaster_id, verification_status, from, to) plus any
+// GET /disasters filter, which then selects reports by the disaster they belong to.
+export const exportReports = async (req, res, next) => {
+  const { disaster_id, verification_status } = req.query;
+  const includeHidden = !!req.user && hasPermission(req.user.role, PERMISSIONS.REPORT_VIEW_HIDDEN);
+
+  let format;
+  let disasterFilters = null;
+  let reportFilters;
+  try {
+    format = parseFormat(req.query.format);
+    const disasterQuery = Object.fromEntries(DISASTER_FILTER_PARAMS
+      .filter(param => req.query[param] !== undefined)
+      .map(param => [param, req.query[param]]));
+    if (Object.keys(disasterQuery).length > 0) disasterFilters = spatialQueryService.parseFilters(disasterQuery);
+    // Reuse the date validation; from/to apply to when the report was submitted
+    const { from, to } = spatialQueryService.parseFilters({ from: req.query.from, to: req.query.to });
+    reportFilters = {
+      from,
+      to,
+      statuses: verification_status ? String(verification_status).split(',').map(s => s.trim()).filter(Boolean) : [],
+      includeHidden,
+    };
+  } catch (validationError) {
+    return next(validationError);
+  }
+
+  try {
+    let disasterIds = disaster_id ? [String(disaster_id)] : null;
+    if (disasterFilters) {
+      const { data: disasters } = await spatialQueryService.collectAll('disasters', disasterFilters);
+      const matching = disasters.map(disaster => String(disaster.id));
+      disasterIds = disasterIds ? disasterIds.filter(id => matching.includes(id)) : matching;
+    }
+
+    const { data: reports, truncated } = disasterIds && disasterIds.length === 0
+      ? { data: [], truncated: false }
+      : await fetchReports({ disasterIds, ...reportFilters });
+
+    const locations = await fetchDisasterLocations([...new Set(reports.map(report => String(report.disaster_id)))]);
+    const rows = reports.map(report => {
+      const disaster = locations.get(String(report.disaster_id));
+      return {
+        ...report,
+        disaster_title: disaster?.title ?? null,
+        latitude: disaster?.latitude ?? null,
+        longitude: disaster?.longitude ?? null,
+      };
+    });
+
+    logger.info('Exporting reports', { format, count: rows.length, truncated, includeHidden });
+    sendExport(res, format, 'reports', rows, {
+      titleOf: row => `Report #${row.id}${row.disaster_title ? ` (${row.disaster_title})` : ''}`,
+      descriptionOf: row => row.content,
+      truncated,
+    });
+  } catch (dbError) {
+    logger.error('Error exporting reports', { error: dbError.message });
+    next(dbError);
+  }
+};
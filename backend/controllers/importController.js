@@ -0,0 +1,292 @@
+// src/controllers/importController.js
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+import { geocodeLocationName, toDisasterLocationColumns } from '../services/locationService.js';
+import { importService } from '../services/importService.js';
+import { realtimeService, EVENTS } from '../services/realtimeService.js';
+import { RESOURCE_TYPES } from './resourceController.js';
+import { SEVERITY, INITIAL_STATUS, isValidSeverity, isValidStatus } from '../config/disasterLifecycle.js';
+
+const DISASTER_FIELDS = ['title', 'description', 'tags', 'severity', 'status', 'location_name', 'latitude', 'longitude'];
+const RESOURCE_FIELDS = ['name', 'resource_type', 'quantity', 'capacity', 'unit', 'disaster_id', 'location_name', 'latitude', 'longitude'];
+
+// Keeps `in.(...)` filters well within URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+// Geocoding runs inside the request at about one lookup per second (Nominatim's limit,
+// shared with the social media monitor), so each import may look up this many places
+const MAX_GEOCODE_LOOKUPS = 25;
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+// Problem with a single row: reported in the row result instead of failing the import
+const rowError = (message) => {
+  const error = new Error(message);
+  error.isRowError = true;
+  return error;
+};
+
+const isTruthy = (value) => ['true', '1', 'yes'].includes(String(value).toLowerCase());
+
+/**
+ * Read the file, options and column mapping shared by both import endpoints.
+ * @returns {{dryRun: boolean, format: string, rows: Object[]}}
+ */
+const readImportRequest = (req, fields) => {
+  if (!req.file) throw badRequest('A CSV or GeoJSON file is required in the "file" field.');
+  const mapping = importService.parseMapping(req.body.mapping, fields);
+  const { format, rows } = importService.parseImportFile(req.file, req.body.format || req.query.format);
+  const dryRun = isTruthy(req.body.dry_run ?? req.query.dry_run);
+  return { dryRun, format, rows: rows.map(row => importService.mapRow(row, fields, mapping)) };
+};
+
+const parseOptionalCount = (value, field) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw rowError(`${field} must be a non-negative integer.`);
+  return number;
+};
+
+/**
+ * Work out a row's point from its coordinates, or geocode its location name.
+ * Geocoding results are shared across rows of the same import; rows naming a
+ * place beyond the first MAX_GEOCODE_LOOKUPS distinct ones fail.
+ * @returns {Promise<{location_name?: string, location?: string, latitude?: number, longitude?: number, provider?: string, confidence?: number|null}>}
+ */
+const resolveRowLocation = async (row, geocodeCache) => {
+  if (row.latitude !== undefined || row.longitude !== undefined) {
+    const latitude = Number(row.latitude);
+    const longitude = Number(row.longitude);
+    if (row.latitude === undefined || row.longitude === undefined || !Number.isFinite(latitude) || !Number.isFinite(longitude)
+      || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw rowError('Invalid latitude or longitude.');
+    }
+    return { location_name: row.location_name, location: `POINT(${longitude} ${latitude})`, latitude, longitude };
+  }
+
+  if (!row.location_name) return {};
+
+  const key = String(row.location_name).trim().toLowerCase();
+  if (!geocodeCache.has(key)) {
+    if (geocodeCache.size >= MAX_GEOCODE_LOOKUPS) {
+      throw rowError(`Only ${MAX_GEOCODE_LOOKUPS} different location names can be geocoded per import; give latitude and longitude for "${row.location_name}" or import it in another file.`);
+    }
+    geocodeCache.set(key, await geocodeLocationName(row.location_name));
+  }
+  const geocoded = geocodeCache.get(key);
+  if (!geocoded) throw rowError(`Could not find a location for "${row.location_name}".`);
+
+  return {
+    location_name: row.location_name,
+    location: `POINT(${geocoded.longitude} ${geocoded.latitude})`,
+    latitude: geocoded.latitude,
+    longitude: geocoded.longitude,
+    provider: geocoded.provider,
+    confidence: geocoded.confidence,
+  };
+};
+
+// Values of `column` that already exist in `table`, for duplicate detection
+const findExisting = async (table, column, values, select) => {
+  const unique = [...new Set(values.filter(Boolean))];
+  const existing = [];
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase.from(table).select(select).in(column, unique.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) throw error;
+    existing.push(...data);
+  }
+  return existing;
+};
+
+/**
+ * Run every row through `processRow`, collecting a per-row report. Row errors
+ * mark just that row as failed; anything else aborts the import.
+ * @param {Object[]} rows - Mapped rows
+ * @param {(row: Object, index: number) => Promise<Object>} processRow - Returns the row result
+ */
+const processRows = async (rows, processRow) => {
+  const results = [];
+  for (const [index, row] of rows.entries()) {
+    try {
+      results.push({ row: index + 1, ...(await processRow(row, index)) });
+    } catch (err) {
+      if (!err.isRowError && !err.code) throw err;
+      // Database errors (e.g. a foreign key violation) only fail the row
+      results.push({ row: index + 1, status: 'failed', error: err.message });
+    }
+  }
+  return results;
+};
+
+const summarize = (dryRun, format, results) => ({
+  dryRun,
+  format,
+  total: results.length,
+  created: results.filter(r => r.status === 'created' || r.status === 'would_create').length,
+  skipped: results.filter(r => r.status === 'skipped').length,
+  failed: results.filter(r => r.status === 'failed').length,
+  rows: results,
+});
+
+const coordinatesOf = ({ latitude, longitude, location_name, provider, confidence }) =>
+  (latitude !== undefined
+    ? { location_name: location_name ?? null, latitude, longitude, provider: provider ?? null, confidence: confidence ?? null }
+    : null);
+
+// POST /import/disasters (multipart: file, mapping?, format?, dry_run?)
+export const importDisasters = async (req, res, next) => {
+  const user = req.user;
+  let request;
+  try {
+    request = readImportRequest(req, DISASTER_FIELDS);
+  } catch (validationError) {
+    return next(validationError);
+  }
+  const { dryRun, format, rows } = request;
+
+  try {
+    const existingTitles = new Set((await findExisting('disasters', 'title', rows.map(row => row.title), 'title'))
+      .map(disaster => disaster.title.toLowerCase()));
+    const geocodeCache = new Map();
+
+    const results = await processRows(rows, async (row) => {
+      if (!row.title || !row.description) throw rowError('title and description are required.');
+
+      const title = String(row.title).trim();
+      if (existingTitles.has(title.toLowerCase())) {
+        return { status: 'skipped', reason: `A disaster titled "${title}" already exists.` };
+      }
+
+      const tags = (Array.isArray(row.tags) ? row.tags : String(row.tags || '').split(/[;,]/))
+        .map(tag => String(tag).trim().toLowerCase())
+        .filter(Boolean);
+      if (tags.length === 0) throw rowError('At least one tag is required.');
+
+      const severity = row.severity === undefined ? SEVERITY.DEFAULT : Number(row.severity);
+      if (!isValidSeverity(severity)) throw rowError(`severity must be an integer from ${SEVERITY.MIN} to ${SEVERITY.MAX}.`);
+
+      const status = row.status === undefined ? INITIAL_STATUS : String(row.status).trim().toLowerCase();
+      if (!isValidStatus(status)) throw rowError(`Invalid status '${row.status}'.`);
+
+      const location = await resolveRowLocation(row, geocodeCache);
+      const warnings = location.location ? [] : ['No coordinates or location name; imported without a location.'];
+      // Later rows with the same title are duplicates of this one
+      existingTitles.add(title.toLowerCase());
+
+      if (dryRun) {
+        return { status: 'would_create', title, location: coordinatesOf(location), warnings };
+      }
+
+      const { data, error } = await supabase
+        .from('disasters')
+        .insert({
+          title, description: String(row.description), tags, severity, status, owner_id: user.id,
+          audit_trail: [{ action: 'create', user_id: user.id, timestamp: new Date().toISOString(), source: 'import' }],
+          ...toDisasterLocationColumns(location.location ? [{
+            name: location.location_name || null, role: 'primary', latitude: location.latitude, longitude: location.longitude,
+            provider: location.provider, confidence: location.confidence,
+          }] : []),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const coords = location.location ? { latitude: location.latitude, longitude: location.longitude } : {};
+      realtimeService.publish(
+        EVENTS.DISASTER_UPDATED,
+        { type: 'CREATE', payload: { ...data, ...coords } },
+        { disasterId: data.id, tags: data.tags, ...coords }
+      );
+      return { status: 'created', id: data.id, title, location: coordinatesOf(location), warnings };
+    });
+
+    const summary = summarize(dryRun, format, results);
+    logger.info('Disaster import finished', { dryRun, total: summary.total, created: summary.created, failed: summary.failed, userId: user.id });
+    res.status(200).json(summary);
+  } catch (err) {
+    logger.error('Error importing disasters', { error: err.message, userId: user.id });
+    next(err);
+  }
+};
+
+// POST /import/resources (multipart: file, mapping?, format?, dry_run?)
+export const importResources = async (req, res, next) => {
+  const user = req.user;
+  let request;
+  try {
+    request = readImportRequest(req, RESOURCE_FIELDS);
+  } catch (validationError) {
+    return next(validationError);
+  }
+  const { dryRun, format, rows } = request;
+
+  try {
+    // A resource with the same name at the same place is treated as already imported
+    const keyOf = (name, locationName) => `${String(name).trim().toLowerCase()}|${String(locationName || '').trim().toLowerCase()}`;
+    const existingKeys = new Set((await findExisting('resources', 'name', rows.map(row => row.name), 'name, location_name'))
+      .map(resource => keyOf(resource.name, resource.location_name)));
+    const geocodeCache = new Map();
+
+    const results = await processRows(rows, async (row) => {
+      if (!row.name || !row.resource_type) throw rowError('name and resource_type are required.');
+
+      const name = String(row.name).trim();
+      const key = keyOf(name, row.location_name);
+      if (existingKeys.has(key)) {
+        return { status: 'skipped', reason: `Resource "${name}" already exists at this location.` };
+      }
+
+      const resource_type = String(row.resource_type).trim().toLowerCase();
+      if (!RESOURCE_TYPES.includes(resource_type)) {
+        throw rowError(`resource_type must be one of: ${RESOURCE_TYPES.join(', ')}.`);
+      }
+      const quantity = parseOptionalCount(row.quantity, 'quantity') ?? 0;
+      const capacity = parseOptionalCount(row.capacity, 'capacity') ?? null;
+
+      const location = await resolveRowLocation(row, geocodeCache);
+      const warnings = location.location ? [] : ['No coordinates or location name; imported without a location.'];
+      existingKeys.add(key);
+
+      if (dryRun) {
+        return { status: 'would_create', name, location: coordinatesOf(location), warnings };
+      }
+
+      const { data, error } = await supabase
+        .from('resources')
+        .insert({
+          name, resource_type, quantity, capacity, unit: row.unit || null,
+          disaster_id: row.disaster_id || null, owner_id: user.id,
+          location_name: location.location_name || null, location: location.location || null,
+          geocode_provider: location.provider ?? null, geocode_confidence: location.confidence ?? null,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      const { error: historyError } = await supabase
+        .from('resource_stock_changes')
+        .insert({ resource_id: data.id, change: quantity, quantity_after: quantity, reason: 'import', user_id: user.id });
+      if (historyError) logger.error('Error recording stock change', { error: historyError.message, resourceId: data.id });
+
+      const coords = location.location ? { latitude: location.latitude, longitude: location.longitude } : {};
+      realtimeService.publish(EVENTS.RESOURCE_UPDATED, { type: 'CREATE', payload: { ...data, ...coords } }, {
+        disasterId: data.disaster_id ?? undefined,
+        ...coords,
+        tags: [],
+      });
+      return { status: 'created', id: data.id, name, location: coordinatesOf(location), warnings };
+    });
+
+    const summary = summarize(dryRun, format, results);
+    logger.info('Resource import finished', { dryRun, total: summary.total, created: summary.created, failed: summary.failed, userId: user.id });
+    res.status(200).json(summary);
+  } catch (err) {
+    logger.error('Error importing resources', { error: err.message, userId: user.id });
+    next(err);
+  }
+};
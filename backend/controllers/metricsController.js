@@ -0,0 +1,7 @@
+// src/controllers/metricsController.js
+import { geocodingService } from '../services/geocodingService.js';
+
+// GET /metrics/geocoding: cache hit/miss counts, rate limiter queue depth and per-provider outcomes
+export const getGeocodingMetrics = (req, res) => {
+  res.status(200).json(geocodingService.getStats());
+};
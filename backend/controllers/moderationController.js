@@ -0,0 +1,150 @@
+// src/controllers/moderationController.js
+import supabase from '../config/supabaseClient.js';
+import { realtimeService, EVENTS } from '../services/realtimeService.js';
+import { logger } from '../utils/logger.js';
+import { SEVERITY } from '../config/disasterLifecycle.js';
+import { PERMISSIONS } from '../config/permissions.js';
+
+// create table public.report_reviews (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   report_id bigint not null,
+//   reviewer_id text not null,
+//   decision text not null,
+//   reason text null,
+//   previous_status text not null,
+//   new_status text not null,
+//   constraint report_reviews_pkey primary key (id),
+//   constraint report_reviews_report_id_fkey foreign KEY (report_id) references reports (id) on delete CASCADE
+// ) TABLESPACE pg_default;
+
+// Statuses that still need a human decision ('needs_review' is set when the AI is unsure)
+const QUEUE_STATUSES = ['pending', 'needs_review', 'escalated'];
+
+// Reviewer decision -> resulting verification_status
+const DECISIONS = {
+  approve: 'verified',
+  reject: 'rejected',
+  escalate: 'escalated',
+};
+
+// GET /reports/queue
+export const getModerationQueue = async (req, res, next) => {
+  const { disaster_id } = req.query;
+  try {
+    let query = supabase
+      .from('reports')
+      .select('*, disaster:disasters(id, title, tags, severity)')
+      .in('verification_status', QUEUE_STATUSES);
+
+    if (disaster_id) {
+      query = query.eq('disaster_id', disaster_id);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // Most severe disasters first, then the oldest reports within each severity
+    const queue = data
+      .map(report => ({ ...report, severity: report.disaster?.severity ?? SEVERITY.DEFAULT }))
+      .sort((a, b) => b.severity - a.severity || new Date(a.created_at) - new Date(b.created_at));
+
+    logger.info('Fetched moderation queue', { count: queue.length, reviewerId: req.user.id });
+    res.status(200).json(queue);
+  } catch (dbError) {
+    logger.error('Database error fetching moderation queue', { error: dbError.message });
+    next(dbError);
+  }
+};
+
+// POST /reports/:id/review
+export const reviewReport = async (req, res, next) => {
+  const { id } = req.params;
+  const { decision, reason } = req.body;
+  const reviewer = req.user;
+
+  if (!DECISIONS[decision]) {
+    const error = new Error(`Decision must be one of: ${Object.keys(DECISIONS).join(', ')}.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  if (decision !== 'approve' && (!reason || !reason.trim())) {
+    const error = new Error('A reason is required when rejecting or escalating a report.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('reports')
+      .select('id, verification_status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) {
+      const error = new Error('Report not found');
+      error.statusCode = 404;
+      return next(error);
+    }
+
+    const newStatus = DECISIONS[decision];
+    const { data, error } = await supabase
+      .from('reports')
+      .update({ verification_status: newStatus })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const { error: auditError } = await supabase
+      .from('report_reviews')
+      .insert({
+        report_id: data.id,
+        reviewer_id: reviewer.id,
+        decision,
+        reason: reason?.trim() || null,
+        previous_status: existing.verification_status,
+        new_status: newStatus,
+      });
+
+    if (auditError) throw auditError;
+
+    // Rejected reports are hidden from those who may not see them, as in GET /reports
+    if (newStatus === 'rejected') {
+      realtimeService.publish(
+        EVENTS.REPORT_REVIEWED,
+        { type: 'DELETE', payload: { id: data.id, disaster_id: data.disaster_id } },
+        { disasterId: data.disaster_id },
+        { privileged: { permission: PERMISSIONS.REPORT_VIEW_HIDDEN, payload: { type: 'UPDATE', payload: data } } },
+      );
+    } else {
+      realtimeService.publish(EVENTS.REPORT_REVIEWED, { type: 'UPDATE', payload: data }, { disasterId: data.disaster_id });
+    }
+    logger.info('Report reviewed', { reportId: data.id, decision, reviewerId: reviewer.id });
+    res.status(200).json(data);
+  } catch (dbError) {
+    logger.error('Error reviewing report', { reportId: id, error: dbError.message });
+    next(dbError);
+  }
+};
+
+// GET /reports/:id/reviews
+export const getReportReviews = async (req, res, next) => {
+  const { id } = req.params;
+  try {
+    const { data, error } = await supabase
+      .from('report_reviews')
+      .select('*')
+      .eq('report_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    res.status(200).json(data);
+  } catch (dbError) {
+    logger.error('Database error fetching report reviews', { reportId: id, error: dbError.message });
+    next(dbError);
+  }
+};
@@ -1,16 +1,28 @@
 import supabase from "../config/supabaseClient.js";
+import { realtimeService, EVENTS } from "../services/realtimeService.js";
+import { storageService } from "../services/storageService.js";
+import { verificationQueueService } from "../services/verificationQueueService.js";
 import { logger } from "../utils/logger.js";
+import { hasPermission, PERMISSIONS } from "../config/permissions.js";
 
 export const getReports = async (req, res, next) => {
 
      const { id } = req.params;
+    // Reports rejected by a verifier are only visible to privileged users
+    const includeHidden = !!req.user && hasPermission(req.user.role, PERMISSIONS.REPORT_VIEW_HIDDEN);
     try {
-        const { data, error } = await supabase
+        let query = supabase
             .from('reports')
             .select('*')
             .eq('disaster_id', id)
             .order('created_at', { ascending: false });
 
+        if (!includeHidden) {
+            query = query.neq('verification_status', 'rejected');
+        }
+
+        const { data, error } = await query;
+
         if (error) {
             logger.error('Error fetching reports', { error: error.message, disasterId: id });
             return next(error);
@@ -36,25 +48,53 @@ export const getReports = async (req, res, next) => {
 //   content text null,
 //   image_url text null,
 //   verification_status text not null default 'pending'::text,
+//   verification_result jsonb null,
+//   verified_at timestamp with time zone null,
 //   constraint reports_pkey primary key (id),
 //   constraint reports_disaster_id_fkey foreign KEY (disaster_id) references disasters (id) on delete CASCADE
 // ) TABLESPACE pg_default;
 
 // create index IF not exists reports_disaster_id_idx on public.reports using btree (disaster_id) TABLESPACE pg_default;
 
+// POST /reports (multipart with an optional "image" file, or JSON with image_url)
 export const createReport = async (req, res, next) => {
-    const { disaster_id, user_id, content, image_url } = req.body;
+    const { disaster_id, content } = req.body;
+    const user_id = req.user.id;
 
-    if (!disaster_id || !user_id || !content) {
-        const error = new Error('Disaster ID, User ID, and Content are required.');
+    if (!disaster_id || typeof content !== 'string' || !content.trim()) {
+        const error = new Error('Disaster ID and Content are required.');
         error.statusCode = 400;
         return next(error);
     }
-   verification_status = 'verified'
+
+    let image_url = req.body.image_url || null;
+    if (image_url && (typeof image_url !== 'string' || !/^https?:\/\//i.test(image_url))) {
+        const error = new Error('image_url must be an http(s) URL.');
+        error.statusCode = 400;
+        return next(error);
+    }
+
     try {
+        const { data: disaster, error: disasterError } = await supabase
+            .from('disasters')
+            .select('id')
+            .eq('id', disaster_id)
+            .maybeSingle();
+
+        if (disasterError) throw disasterError;
+        if (!disaster) {
+            const error = new Error('Disaster not found');
+            error.statusCode = 404;
+            return next(error);
+        }
+
+        if (req.file) {
+            image_url = await storageService.uploadImage(req.file.buffer, req.file.mimetype, `disaster-${disaster_id}`);
+        }
+
         const { data, error } = await supabase
             .from('reports')
-            .insert([{ disaster_id, user_id, content, image_url, verification_status }])
+            .insert([{ disaster_id, user_id, content: content.trim(), image_url, verification_status: 'pending' }])
             .select('*')
             .single();
 
@@ -63,11 +103,18 @@ export const createReport = async (req, res, next) => {
             return next(error);
         }
 
+        realtimeService.publish(EVENTS.REPORT_CREATED, { type: 'CREATE', payload: data }, { disasterId: data.disaster_id });
         logger.info('Report created successfully', { reportId: data.id, disasterId: disaster_id });
         res.status(201).json(data);
 
+        // Text-only reports stay pending for manual review; images are queued for verification
+        if (data.image_url) {
+            verificationQueueService.enqueueReports([data]).catch(err =>
+                logger.error('Error queueing report verification', { error: err.message, reportId: data.id }));
+        }
+
     } catch (dbError) {
         logger.error('Database error creating report', { error: dbError.message, disasterId: disaster_id });
         next(dbError);
     }
-}
\ No newline at end of file
+}
@@ -1,5 +1,8 @@
 import supabase from "../config/supabaseClient.js";
 import { logger } from "../utils/logger.js";
+import { geocodeLocationName } from "../services/locationService.js";
+import { realtimeService, EVENTS } from "../services/realtimeService.js";
+import { spatialQueryService } from "../services/spatialQueryService.js";
 
 export const findNearbyResources = async (req, res, next) => {
     const {lat , lon , radius = 10000} = req.query;
@@ -37,4 +40,357 @@ export const findNearbyResources = async (req, res, next) => {
         logger.error('Database error finding nearby resources', { error: dbError.message, latitude, longitude, radius: radiusMeters });
         next(dbError);
     }
-}
\ No newline at end of file
+}
+
+// create table public.resources (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   updated_at timestamp with time zone not null default now(),
+//   name text not null,
+//   resource_type text not null,
+//   location_name text null,
+//   location geography(Point, 4326) null,
+//   quantity integer not null default 0,
+//   capacity integer null,
+//   unit text null,
+//   disaster_id bigint null,
+//   owner_id text null,
+//   geocode_provider text null,
+//   geocode_confidence real null,
+//   constraint resources_pkey primary key (id),
+//   constraint resources_disaster_id_fkey foreign KEY (disaster_id) references disasters (id) on delete set null,
+//   constraint resources_type_check check (resource_type in ('shelter', 'food', 'water', 'medical', 'vehicle')),
+//   constraint resources_quantity_check check (quantity >= 0)
+// ) TABLESPACE pg_default;
+//
+// create view public.resources_with_coords as
+//   select r.*, st_y(r.location::geometry) as latitude, st_x(r.location::geometry) as longitude
+//   from public.resources r;
+
+// create table public.resource_stock_changes (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   resource_id bigint not null,
+//   change integer not null,
+//   quantity_after integer not null,
+//   reason text not null,
+//   disaster_id bigint null,
+//   user_id text null,
+//   notes text null,
+//   constraint resource_stock_changes_pkey primary key (id),
+//   constraint resource_stock_changes_resource_id_fkey foreign KEY (resource_id) references resources (id) on delete CASCADE
+// ) TABLESPACE pg_default;
+
+export const RESOURCE_TYPES = ['shelter', 'food', 'water', 'medical', 'vehicle'];
+
+const badRequest = (message) => {
+    const error = new Error(message);
+    error.statusCode = 400;
+    return error;
+};
+
+const notFound = () => {
+    const error = new Error('Resource not found');
+    error.statusCode = 404;
+    return error;
+};
+
+// Optional non-negative integer field; undefined when absent
+const parseCount = (value, field) => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw badRequest(`${field} must be a non-negative integer.`);
+    }
+    return number;
+};
+
+/**
+ * Work out a resource's point from explicit coordinates or by geocoding its address.
+ * Geocoded points also record the provider that answered and its confidence.
+ * @returns {Promise<{location_name?: string, location?: string, latitude?: number, longitude?: number, geocode_provider?: string|null, geocode_confidence?: number|null}>}
+ */
+const resolveLocation = async ({ address, lat, lon }) => {
+    if (lat !== undefined && lon !== undefined && lat !== null && lon !== null) {
+        const latitude = parseFloat(lat);
+        const longitude = parseFloat(lon);
+        if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            throw badRequest('Invalid latitude or longitude.');
+        }
+        return {
+            location_name: address, location: `POINT(${longitude} ${latitude})`, latitude, longitude,
+            geocode_provider: null, geocode_confidence: null,
+        };
+    }
+
+    if (address) {
+        const geocoded = await geocodeLocationName(address);
+        if (!geocoded) {
+            throw badRequest(`Could not find a location for address "${address}".`);
+        }
+        return {
+            location_name: address,
+            location: `POINT(${geocoded.longitude} ${geocoded.latitude})`,
+            latitude: geocoded.latitude,
+            longitude: geocoded.longitude,
+            geocode_provider: geocoded.provider,
+            geocode_confidence: geocoded.confidence,
+        };
+    }
+
+    return {};
+};
+
+const fetchResourceWithCoords = async (id) => {
+    const { data, error } = await supabase
+        .from('resources_with_coords')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+};
+
+const recordStockChange = async ({ resource_id, change, quantity_after, reason, disaster_id = null, user_id, notes = null }) => {
+    const { error } = await supabase
+        .from('resource_stock_changes')
+        .insert({ resource_id, change, quantity_after, reason, disaster_id, user_id, notes });
+
+    if (error) {
+        logger.error('Error recording stock change', { error: error.message, resourceId: resource_id });
+        throw error;
+    }
+};
+
+// Keys left out of the context are filled in from the resource's disaster, so a resource
+// without coordinates still reaches that disaster's area and tag subscribers
+const publishResource = (type, resource) => {
+    const hasLocation = resource.latitude != null && resource.longitude != null;
+    realtimeService.publish(EVENTS.RESOURCE_UPDATED, { type, payload: resource }, {
+        ...(resource.disaster_id != null && { disasterId: resource.disaster_id }),
+        ...(hasLocation && { latitude: resource.latitude, longitude: resource.longitude }),
+    });
+};
+
+// GET /resources
+export const listResources = async (req, res, next) => {
+    let filters;
+    try {
+        filters = spatialQueryService.parseFilters(req.query, 'resources');
+    } catch (validationError) {
+        return next(validationError);
+    }
+
+    try {
+        const { data, nextCursor } = await spatialQueryService.searchResources(filters);
+
+        if (nextCursor) res.set('X-Next-Cursor', nextCursor);
+        logger.info('Fetched resources', { count: data.length, type: req.query.type || 'all', hasMore: Boolean(nextCursor) });
+        res.status(200).json(data);
+    } catch (dbError) {
+        logger.error('Database error fetching resources', { error: dbError.message });
+        next(dbError);
+    }
+}
+
+// GET /resources/:id
+export const getResource = async (req, res, next) => {
+    try {
+        const resource = await fetchResourceWithCoords(req.params.id);
+        if (!resource) return next(notFound());
+        res.status(200).json(resource);
+    } catch (dbError) {
+        next(dbError);
+    }
+}
+
+// POST /resources
+export const createResource = async (req, res, next) => {
+    const { name, resource_type, address, lat, lon, unit, disaster_id } = req.body;
+    const user = req.user;
+
+    if (!name || !resource_type) {
+        return next(badRequest('Name and resource_type are required.'));
+    }
+    if (!RESOURCE_TYPES.includes(resource_type)) {
+        return next(badRequest(`resource_type must be one of: ${RESOURCE_TYPES.join(', ')}.`));
+    }
+
+    try {
+        const quantity = parseCount(req.body.quantity, 'quantity') ?? 0;
+        const capacity = parseCount(req.body.capacity, 'capacity') ?? null;
+        const { location_name, location, geocode_provider, geocode_confidence } = await resolveLocation({ address, lat, lon });
+
+        const { data, error } = await supabase
+            .from('resources')
+            .insert({
+                name, resource_type, quantity, capacity, unit: unit || null,
+                disaster_id: disaster_id || null, owner_id: user.id,
+                location_name: location_name || null, location: location || null,
+                geocode_provider: geocode_provider ?? null, geocode_confidence: geocode_confidence ?? null,
+            })
+            .select('id')
+            .single();
+
+        if (error) throw error;
+
+        await recordStockChange({ resource_id: data.id, change: quantity, quantity_after: quantity, reason: 'create', user_id: user.id });
+
+        const resource = await fetchResourceWithCoords(data.id);
+        publishResource('CREATE', resource);
+        logger.info('Resource created', { resourceId: data.id, type: resource_type, userId: user.id });
+        res.status(201).json(resource);
+    } catch (err) {
+        logger.error('Error creating resource', { error: err.message, userId: user.id });
+        next(err);
+    }
+}
+
+// PUT /resources/:id
+export const updateResource = async (req, res, next) => {
+    const { id } = req.params;
+    const { name, resource_type, address, lat, lon, unit, disaster_id, notes } = req.body;
+    const user = req.user;
+
+    if (resource_type !== undefined && !RESOURCE_TYPES.includes(resource_type)) {
+        return next(badRequest(`resource_type must be one of: ${RESOURCE_TYPES.join(', ')}.`));
+    }
+
+    try {
+        const existing = await fetchResourceWithCoords(id);
+        if (!existing) return next(notFound());
+
+        const quantity = parseCount(req.body.quantity, 'quantity');
+        const capacity = parseCount(req.body.capacity, 'capacity');
+        const { location_name, location, geocode_provider, geocode_confidence } = await resolveLocation({ address, lat, lon });
+
+        const changes = Object.fromEntries(Object.entries({
+            name, resource_type, unit, disaster_id, quantity, capacity, location_name, location,
+            geocode_provider, geocode_confidence,
+        }).filter(([, value]) => value !== undefined));
+
+        let query = supabase
+            .from('resources')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id);
+        // Same guard as allocateResource, so the recorded stock change matches what was replaced
+        if (quantity !== undefined) query = query.eq('quantity', existing.quantity);
+        const { data: updated, error } = await query.select('id');
+
+        if (error) throw error;
+        if (!updated || updated.length === 0) {
+            const conflict = new Error('Stock changed while updating. Please reload and try again.');
+            conflict.statusCode = 409;
+            return next(conflict);
+        }
+
+        if (quantity !== undefined && quantity !== existing.quantity) {
+            await recordStockChange({
+                resource_id: existing.id, change: quantity - existing.quantity, quantity_after: quantity,
+                reason: 'adjust', user_id: user.id, notes: notes || null,
+            });
+        }
+
+        const resource = await fetchResourceWithCoords(id);
+        publishResource('UPDATE', resource);
+        logger.info('Resource updated', { resourceId: id, userId: user.id });
+        res.status(200).json(resource);
+    } catch (err) {
+        logger.error('Error updating resource', { error: err.message, resourceId: id });
+        next(err);
+    }
+}
+
+// DELETE /resources/:id
+export const deleteResource = async (req, res, next) => {
+    const { id } = req.params;
+    try {
+        const existing = await fetchResourceWithCoords(id);
+        if (!existing) return next(notFound());
+
+        const { error } = await supabase.from('resources').delete().eq('id', id);
+        if (error) throw error;
+
+        publishResource('DELETE', existing);
+        logger.warn('Resource deleted', { resourceId: id, userId: req.user.id });
+        res.status(204).send();
+    } catch (dbError) {
+        logger.error('Error deleting resource', { error: dbError.message, resourceId: id });
+        next(dbError);
+    }
+}
+
+// POST /resources/:id/allocate
+export const allocateResource = async (req, res, next) => {
+    const { id } = req.params;
+    const { disaster_id, notes } = req.body;
+    const user = req.user;
+
+    if (!disaster_id) {
+        return next(badRequest('disaster_id is required.'));
+    }
+
+    try {
+        const quantity = parseCount(req.body.quantity, 'quantity');
+        if (!quantity) {
+            return next(badRequest('quantity must be a positive integer.'));
+        }
+
+        const existing = await fetchResourceWithCoords(id);
+        if (!existing) return next(notFound());
+
+        if (existing.quantity < quantity) {
+            const error = new Error(`Only ${existing.quantity} ${existing.unit || 'units'} of "${existing.name}" are available.`);
+            error.statusCode = 409;
+            return next(error);
+        }
+
+        // Only update if nobody changed the stock since we read it, so concurrent allocations can't overdraw
+        const remaining = existing.quantity - quantity;
+        const { data: updated, error } = await supabase
+            .from('resources')
+            .update({ quantity: remaining, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('quantity', existing.quantity)
+            .select('id');
+
+        if (error) throw error;
+        if (!updated || updated.length === 0) {
+            const conflict = new Error('Stock changed while allocating. Please try again.');
+            conflict.statusCode = 409;
+            return next(conflict);
+        }
+
+        await recordStockChange({
+            resource_id: existing.id, change: -quantity, quantity_after: remaining,
+            reason: 'allocate', disaster_id, user_id: user.id, notes: notes || null,
+        });
+
+        const resource = await fetchResourceWithCoords(id);
+        publishResource('UPDATE', resource);
+        logger.info('Resource allocated', { resourceId: id, disasterId: disaster_id, quantity, userId: user.id });
+        res.status(200).json(resource);
+    } catch (err) {
+        logger.error('Error allocating resource', { error: err.message, resourceId: id });
+        next(err);
+    }
+}
+
+// GET /resources/:id/history
+export const getResourceHistory = async (req, res, next) => {
+    const { id } = req.params;
+    try {
+        const { data, error } = await supabase
+            .from('resource_stock_changes')
+            .select('*')
+            .eq('resource_id', id)
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        res.status(200).json(data);
+    } catch (dbError) {
+        logger.error('Database error fetching resource history', { error: dbError.message, resourceId: id });
+        next(dbError);
+    }
+}
@@ -0,0 +1,57 @@
+// src/controllers/userController.js
+import { authService } from '../services/authService.js';
+import { isValidRole, getPermissionsForRole, ROLES } from '../config/permissions.js';
+import { logger } from '../utils/logger.js';
+
+// GET /users
+export const listUsers = async (req, res, next) => {
+  try {
+    const users = await authService.listUsers();
+    res.status(200).json(users.map(authService.toPublicUser));
+  } catch (err) {
+    logger.error('Error listing users', { error: err.message });
+    next(err);
+  }
+};
+
+// GET /users/roles
+export const listRoles = (req, res) => {
+  const roles = Object.values(ROLES).map((role) => ({
+    role,
+    permissions: getPermissionsForRole(role),
+  }));
+  res.status(200).json(roles);
+};
+
+// PUT /users/:id/role
+export const assignRole = async (req, res, next) => {
+  const { id } = req.params;
+  const { role } = req.body;
+
+  if (!isValidRole(role)) {
+    const error = new Error(`Invalid role. Expected one of: ${Object.values(ROLES).join(', ')}.`);
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  if (id === req.user.id && role !== ROLES.ADMIN) {
+    const error = new Error('Admins cannot remove their own admin role.');
+    error.statusCode = 400;
+    return next(error);
+  }
+
+  try {
+    const user = await authService.updateUserRole(id, role);
+    if (!user) {
+      const error = new Error('User not found');
+      error.statusCode = 404;
+      return next(error);
+    }
+
+    logger.warn('User role changed', { userId: id, role, adminId: req.user.id });
+    res.status(200).json(authService.toPublicUser(user));
+  } catch (err) {
+    logger.error('Error assigning role', { error: err.message, userId: id });
+    next(err);
+  }
+};
@@ -1,30 +1,46 @@
+import { authService } from '../services/authService.js';
+
 export const authMiddleware = (req, res, next) => {
-    const userid = req.headers['x-user-id'];
+    const header = req.headers['authorization'];
 
-    if (!userid) {
-        const error = new Error('Unauthorized: User ID is required');
+    if (!header || !header.startsWith('Bearer ')) {
+        const error = new Error('Unauthorized: Bearer token is required');
         error.status = 401;
         return next(error);
     }
 
-    if(userid === 'reliefAdmin'){
-        req.user = {
-            id: userid,
-            role: 'admin'
-        };
+    try {
+        req.user = userFromHeader(header);
+    } catch (error) {
+        return next(error);
     }
-    else if(userid === 'netrunnerX'){
-        req.user = {
-            id: userid,
-            role: 'contributor'
-        };
 
-    }
-    else{
-        const error = new Error('Unauthorized: Invalid User ID');
-        error.status = 401;
-        return next(error);
+    next();
+}
+
+const userFromHeader = (header) => {
+    const payload = authService.verifyAccessToken(header.slice('Bearer '.length).trim());
+    return {
+        id: payload.sub,
+        role: payload.role,
+        username: payload.username
+    };
+}
+
+
+// Like authMiddleware, but lets anonymous requests through. Public routes use it
+// to show extra data to signed-in users without requiring a token. An expired or
+// invalid token is treated as anonymous rather than rejected.
+export const optionalAuthMiddleware = (req, res, next) => {
+    const header = req.headers['authorization'];
+
+    if (header && header.startsWith('Bearer ')) {
+        try {
+            req.user = userFromHeader(header);
+        } catch {
+            // Continue without req.user
+        }
     }
 
     next();
-}
\ No newline at end of file
+}
@@ -18,6 +18,7 @@ export const errorHandler = (err, req, res, next) => {
     error: {
       message: message,
       status: statusCode,
+      ...(err.details && { details: err.details }),
     },
   });
 };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { hasPermission } from '../config/permissions.js';
+
+/**
+ * Route guard that requires the authenticated user to hold every listed permission.
+ * Must run after authMiddleware so that req.user is populated.
+ * @param {...string} permissions - Permissions from config/permissions.js
+ */
+export const requirePermission = (...permissions) => (req, res, next) => {
+    if (!req.user) {
+        const error = new Error('Unauthorized: Authentication is required');
+        error.status = 401;
+        return next(error);
+    }
+
+    const missing = permissions.find((permission) => !hasPermission(req.user.role, permission));
+    if (missing) {
+        const error = new Error(`Forbidden: Missing permission '${missing}'`);
+        error.status = 403;
+        error.details = { missingPermission: missing, role: req.user.role };
+        return next(error);
+    }
+
+    next();
+}
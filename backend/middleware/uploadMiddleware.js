@@ -0,0 +1,61 @@
+import multer from 'multer';
+import path from 'path';
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5 MB
+const MAX_DATA_FILE_BYTES = 10 * 1024 * 1024; // 10 MB
+// Browsers report CSV files under several MIME types, so data files are checked by extension
+const DATA_FILE_EXTENSIONS = ['.csv', '.geojson', '.json'];
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
+    fileFilter: (req, file, cb) => {
+        if (!file.mimetype.startsWith('image/')) {
+            const error = new Error('Only image uploads are allowed.');
+            error.status = 400;
+            return cb(error);
+        }
+        cb(null, true);
+    },
+});
+
+const dataFileUploader = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DATA_FILE_BYTES, files: 1 },
+    fileFilter: (req, file, cb) => {
+        if (!DATA_FILE_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+            const error = new Error(`Only ${DATA_FILE_EXTENSIONS.join(', ')} files can be imported.`);
+            error.status = 400;
+            return cb(error);
+        }
+        cb(null, true);
+    },
+});
+
+// Run a multer single-file handler, turning Multer errors (e.g. file too large) into 400 responses
+const handleSingleUpload = (uploader, fieldName, label, maxBytes) => (req, res, next) => {
+    uploader.single(fieldName)(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            const error = new Error(
+                err.code === 'LIMIT_FILE_SIZE'
+                    ? `${label} must be smaller than ${maxBytes / (1024 * 1024)} MB.`
+                    : `Invalid upload: ${err.message}`
+            );
+            error.status = 400;
+            return next(error);
+        }
+        next(err);
+    });
+};
+
+/**
+ * Accepts an optional single image in the given multipart field and exposes it as req.file.
+ * @param {string} fieldName - Name of the multipart form field
+ */
+export const imageUpload = (fieldName) => handleSingleUpload(upload, fieldName, 'Image', MAX_IMAGE_BYTES);
+
+/**
+ * Accepts a single CSV or GeoJSON file in the given multipart field and exposes it as req.file.
+ * @param {string} fieldName - Name of the multipart form field
+ */
+export const dataFileUpload = (fieldName) => handleSingleUpload(dataFileUploader, fieldName, 'Import file', MAX_DATA_FILE_BYTES);
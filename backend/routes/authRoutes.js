@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as authController from '../controllers/authController.js';
+import { authMiddleware } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// Public routes
+router.post('/register', authController.register);
+router.post('/login', authController.login);
+router.post('/refresh', authController.refresh);
+
+// Protected routes
+router.post('/logout', authMiddleware, authController.logout);
+router.get('/me', authMiddleware, authController.me);
+
+export default router;
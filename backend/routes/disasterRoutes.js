@@ -1,16 +1,22 @@
 import { Router } from 'express';
 import * as disasterController from '../controllers/disasterController.js';
 import { authMiddleware } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/permissionMiddleware.js';
+import { PERMISSIONS } from '../config/permissions.js';
 
 const router = Router();
 
 // Public routes
 router.get('/', disasterController.getAllDisasters);
+router.get('/:id/timeline', disasterController.getDisasterTimeline);
 
 
 // Protected routes
-router.post('/', authMiddleware, disasterController.createDisaster);
-router.put('/:id', authMiddleware, disasterController.updateDisaster);
-router.delete('/:id', authMiddleware, disasterController.deleteDisaster);
+router.get('/:id/presence', authMiddleware, requirePermission(PERMISSIONS.PRESENCE_VIEW), disasterController.getDisasterPresence);
+router.get('/locations/search', authMiddleware, requirePermission(PERMISSIONS.DISASTER_CREATE), disasterController.searchLocations);
+router.post('/locations/preview', authMiddleware, requirePermission(PERMISSIONS.DISASTER_CREATE), disasterController.previewLocations);
+router.post('/', authMiddleware, requirePermission(PERMISSIONS.DISASTER_CREATE), disasterController.createDisaster);
+router.put('/:id', authMiddleware, requirePermission(PERMISSIONS.DISASTER_UPDATE), disasterController.updateDisaster);
+router.delete('/:id', authMiddleware, requirePermission(PERMISSIONS.DISASTER_DELETE), disasterController.deleteDisaster);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import * as exportController from '../controllers/exportController.js';
+import { optionalAuthMiddleware } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// Public routes; ?format=geojson|kml|csv plus the filters of the matching list endpoint
+router.get('/disasters', exportController.exportDisasters);
+router.get('/resources', exportController.exportResources);
+// Rejected reports are only included for privileged users
+router.get('/reports', optionalAuthMiddleware, exportController.exportReports);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import * as importController from '../controllers/importController.js';
+import { authMiddleware } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/permissionMiddleware.js';
+import { dataFileUpload } from '../middleware/uploadMiddleware.js';
+import { PERMISSIONS } from '../config/permissions.js';
+
+const router = Router();
+
+// Protected routes; multipart with a CSV or GeoJSON "file", optional "mapping" (JSON) and "dry_run"
+router.post('/disasters', authMiddleware, requirePermission(PERMISSIONS.DATA_IMPORT, PERMISSIONS.DISASTER_CREATE), dataFileUpload('file'), importController.importDisasters);
+router.post('/resources', authMiddleware, requirePermission(PERMISSIONS.DATA_IMPORT, PERMISSIONS.RESOURCE_MANAGE), dataFileUpload('file'), importController.importResources);
+
+export default router;
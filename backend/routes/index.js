@@ -2,7 +2,16 @@ import { Router } from 'express';
 import disasterRoutes from './disasterRoutes.js';
 import resourceRoutes from './resourceRoutes.js';
 import reportRoutes from './reportRoutes.js';
+import authRoutes from './authRoutes.js';
+import userRoutes from './userRoutes.js';
+import exportRoutes from './exportRoutes.js';
+import importRoutes from './importRoutes.js';
 import * as aggregationController from '../controllers/aggregationController.js';
+import * as metricsController from '../controllers/metricsController.js';
+import { authMiddleware } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/permissionMiddleware.js';
+import { imageUpload } from '../middleware/uploadMiddleware.js';
+import { PERMISSIONS } from '../config/permissions.js';
 
 const router = Router();
 
@@ -11,13 +20,26 @@ router.get('/', (req, res) => {
   res.json({ message: 'Disaster Response API is running!' });
 });
 
+router.use('/auth', authRoutes);
+router.use('/users', userRoutes);
 router.use('/disasters', disasterRoutes);
 router.use('/resources',resourceRoutes)
 router.use('/reports', reportRoutes);
+router.use('/export', exportRoutes);
+router.use('/import', importRoutes);
 
 router.get('/disasters/:id/social-media', aggregationController.getSocialMedia);
+router.get('/disasters/:id/social-posts', aggregationController.getSocialPostArchive);
+router.get('/disasters/:id/social-search-terms', aggregationController.getSocialSearchTerms);
+router.put('/disasters/:id/social-search-terms', authMiddleware, requirePermission(PERMISSIONS.SOCIAL_SEARCH_MANAGE), aggregationController.updateSocialSearchTerms);
+router.post('/disasters/:id/verify-reports', authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), aggregationController.verifyDisasterReports);
+router.get('/social/trending', authMiddleware, requirePermission(PERMISSIONS.SOCIAL_TRENDS_VIEW), aggregationController.getTrendingTopics);
 router.get('/official-updates', aggregationController.getOfficialUpdates);
-router.post('/verify-image', aggregationController.verifyImage);
+router.post('/verify-image', authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), aggregationController.verifyImage);
+router.get('/verify-image/jobs', authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), aggregationController.listVerificationJobs);
+router.get('/verify-image/jobs/:id', authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), aggregationController.getVerificationJob);
+router.post('/verify-image/similar', authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), imageUpload('image'), aggregationController.findSimilarImages);
+router.get('/metrics/geocoding', authMiddleware, requirePermission(PERMISSIONS.METRICS_VIEW), metricsController.getGeocodingMetrics);
 
 
 export default router;
\ No newline at end of file
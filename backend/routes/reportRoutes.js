@@ -1,10 +1,23 @@
-import { getReports } from "../controllers/reportController.js";
+import { getReports, createReport } from "../controllers/reportController.js";
+import * as moderationController from "../controllers/moderationController.js";
 import { Router } from "express";
-import { authMiddleware } from "../middleware/authMiddleware.js";
+import { authMiddleware, optionalAuthMiddleware } from "../middleware/authMiddleware.js";
+import { requirePermission } from "../middleware/permissionMiddleware.js";
+import { imageUpload } from "../middleware/uploadMiddleware.js";
+import { PERMISSIONS } from "../config/permissions.js";
 
 const router = Router();
-// Public route to get reports for a specific disaster
-router.get("/:id", getReports);
 
+// Moderation routes (must come before "/:id")
+router.get("/queue", authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), moderationController.getModerationQueue);
+router.post("/:id/review", authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), moderationController.reviewReport);
+router.get("/:id/reviews", authMiddleware, requirePermission(PERMISSIONS.REPORT_VERIFY), moderationController.getReportReviews);
 
-export default router;
\ No newline at end of file
+// Public route to get reports for a specific disaster (rejected reports only shown to privileged users)
+router.get("/:id", optionalAuthMiddleware, getReports);
+
+// Protected route for citizens to submit a report, with an optional image upload
+router.post("/", authMiddleware, requirePermission(PERMISSIONS.REPORT_CREATE), imageUpload("image"), createReport);
+
+
+export default router;
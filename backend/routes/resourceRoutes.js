@@ -1,8 +1,20 @@
 import { Router } from "express";
 import * as resourceController from "../controllers/resourceController.js";
+import { authMiddleware } from "../middleware/authMiddleware.js";
+import { requirePermission } from "../middleware/permissionMiddleware.js";
+import { PERMISSIONS } from "../config/permissions.js";
 
 const router = Router();
 // Public routes
+router.get("/", resourceController.listResources);
 router.get("/nearby", resourceController.findNearbyResources);
+router.get("/:id", resourceController.getResource);
 
-export default router;
\ No newline at end of file
+// Protected routes
+router.get("/:id/history", authMiddleware, requirePermission(PERMISSIONS.RESOURCE_ALLOCATE), resourceController.getResourceHistory);
+router.post("/", authMiddleware, requirePermission(PERMISSIONS.RESOURCE_MANAGE), resourceController.createResource);
+router.put("/:id", authMiddleware, requirePermission(PERMISSIONS.RESOURCE_MANAGE), resourceController.updateResource);
+router.delete("/:id", authMiddleware, requirePermission(PERMISSIONS.RESOURCE_MANAGE), resourceController.deleteResource);
+router.post("/:id/allocate", authMiddleware, requirePermission(PERMISSIONS.RESOURCE_ALLOCATE), resourceController.allocateResource);
+
+export default router;
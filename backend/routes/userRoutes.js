@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import * as userController from '../controllers/userController.js';
+import { authMiddleware } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/permissionMiddleware.js';
+import { PERMISSIONS } from '../config/permissions.js';
+
+const router = Router();
+
+// Protected routes (admin only)
+router.get('/', authMiddleware, requirePermission(PERMISSIONS.USER_MANAGE), userController.listUsers);
+router.get('/roles', authMiddleware, requirePermission(PERMISSIONS.USER_MANAGE), userController.listRoles);
+router.put('/:id/role', authMiddleware, requirePermission(PERMISSIONS.USER_MANAGE), userController.assignRole);
+
+export default router;
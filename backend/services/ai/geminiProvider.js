@@ -0,0 +1,51 @@
+// src/services/ai/geminiProvider.js
+import { GoogleGenAI, Type } from '@google/genai';
+
+const GEMINI_TYPES = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+// Translate a registry schema into Gemini's own schema format
+const toGeminiSchema = (schema) => ({
+  ...schema,
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+});
+
+/**
+ * Provider backed by the Google Gemini API.
+ * @param {{apiKey: string, textModel: string, visionModel: string, timeout: number}} options
+ */
+export const createGeminiProvider = ({ apiKey, textModel, visionModel, timeout }) => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { timeout } });
+  const models = { text: textModel, vision: visionModel };
+
+  return {
+    name: 'gemini',
+    modelFor: (capability) => models[capability],
+    generate: async ({ prompt, text, image }) => {
+      const parts = [{ text }];
+      if (image) parts.push({ inlineData: { mimeType: image.mimeType, data: image.data.toString('base64') } });
+
+      const response = await ai.models.generateContent({
+        model: models[prompt.capability],
+        config: {
+          thinkingConfig: { thinkingBudget: prompt.reasoning === 'none' ? 0 : -1 },
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(prompt.schema),
+          systemInstruction: [{ text: prompt.system }],
+        },
+        contents: [{ role: 'user', parts }],
+      });
+      return response.text;
+    },
+  };
+};
@@ -0,0 +1,47 @@
+// src/services/ai/openaiCompatibleProvider.js
+import axios from 'axios';
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API: OpenAI
+ * itself, or a local model server such as vLLM, llama.cpp or Ollama.
+ * Servers that don't support JSON schemas can use `jsonMode: 'json_object'`,
+ * which only asks for valid JSON; the schema is then left to the prompt.
+ * @param {{baseUrl: string, apiKey?: string, textModel: string, visionModel: string, jsonMode: string, timeout: number}} options
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, textModel, visionModel, jsonMode, timeout }) => {
+  const models = { text: textModel, vision: visionModel };
+
+  const responseFormatFor = (prompt) => (jsonMode === 'json_schema'
+    ? { type: 'json_schema', json_schema: { name: prompt.id.replace(/[^a-zA-Z0-9_-]/g, '_'), schema: prompt.schema } }
+    : { type: 'json_object' });
+
+  return {
+    name: 'openai_compatible',
+    modelFor: (capability) => models[capability],
+    generate: async ({ prompt, text, image }) => {
+      const content = image
+        ? [
+          { type: 'text', text },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` } },
+        ]
+        : text;
+
+      const { data } = await axios.post(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        model: models[prompt.capability],
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content },
+        ],
+        response_format: responseFormatFor(prompt),
+        temperature: 0,
+      }, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout,
+      });
+
+      const message = data?.choices?.[0]?.message?.content;
+      if (typeof message !== 'string') throw new Error('OpenAI-compatible server returned no message content');
+      return message;
+    },
+  };
+};
@@ -0,0 +1,115 @@
+// src/services/ai/prompts.js
+
+// Roles a place can play in a disaster description
+export const LOCATION_ROLES = ['primary', 'affected_area', 'shelter_site'];
+
+// What a social media post about a disaster is about
+export const POST_CATEGORIES = ['need_help', 'offering_help', 'damage_report', 'infrastructure_status', 'misinformation', 'irrelevant'];
+
+// How soon someone should act on a post, most urgent first
+export const URGENCY_LEVELS = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * Every prompt sent to a model, with the schema its answer must follow.
+ * Bump `version` whenever the instructions or schema change, so stored
+ * results can be traced back to the prompt that produced them.
+ *
+ * - capability: 'text' or 'vision', which picks the provider's model
+ * - reasoning: 'none' for quick extraction, 'auto' to let the model decide
+ * - schema: JSON Schema subset (object, array, string, number, boolean, enum)
+ * - stub: the deterministic answer given by the offline stub provider
+ */
+export const PROMPTS = {
+  'location-extraction': {
+    version: '2025-07-roles.2',
+    capability: 'text',
+    reasoning: 'none',
+    system: 'From the disaster description, extract every place mentioned (cities, neighborhoods, landmarks, roads, shelters), each as specific as the text allows. Give each a role: "primary" for the main location of the disaster (exactly one), "affected_area" for other places that are affected, and "shelter_site" for shelters, evacuation centers or relief points. Respond with ONLY a JSON object with a single key "locations". For example: {"locations": [{"name": "Houston, TX", "role": "primary"}, {"name": "Galveston, TX", "role": "affected_area"}, {"name": "George R. Brown Convention Center, Houston", "role": "shelter_site"}]}. If no location is found, respond with {"locations": []}',
+    schema: {
+      type: 'object',
+      required: ['locations'],
+      properties: {
+        locations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'role'],
+            properties: {
+              name: { type: 'string' },
+              role: { type: 'string', enum: LOCATION_ROLES },
+            },
+          },
+        },
+      },
+    },
+    // Finds nothing, so callers fall back to the offline gazetteer
+    stub: () => ({ locations: [] }),
+  },
+
+  'social-post-classification': {
+    version: '2025-07-posts.1',
+    capability: 'text',
+    reasoning: 'none',
+    system: `You triage social media posts for disaster responders. The input is a JSON object with the disaster's "keywords", its "location", and numbered "posts". For each post give: "category", one of ${POST_CATEGORIES.map(category => `"${category}"`).join(', ')} ("need_help" for someone asking for rescue, supplies or assistance; "offering_help" for offers of shelter, supplies, transport or volunteers; "damage_report" for damage, injuries or casualties; "infrastructure_status" for roads, bridges, power, water, phone or transit status; "misinformation" for rumors, conspiracy claims or unverifiable sensational claims; "irrelevant" for posts unrelated to this disaster); "urgency", one of ${URGENCY_LEVELS.map(level => `"${level}"`).join(', ')} ("critical" only when lives are at immediate risk); "relevance", 0 to 100 for how much the post concerns this disaster; and the "phones", street "addresses" and named "places" it mentions, copied as written. Respond with ONLY a JSON object with a single key "posts", one entry per input post with its "index". For example: {"posts": [{"index": 0, "category": "need_help", "urgency": "critical", "relevance": 90, "phones": ["555-0142"], "addresses": ["12 River Rd"], "places": ["Riverside"]}]}`,
+    schema: {
+      type: 'object',
+      required: ['posts'],
+      properties: {
+        posts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['index', 'category', 'urgency', 'relevance', 'phones', 'addresses', 'places'],
+            properties: {
+              index: { type: 'number' },
+              category: { type: 'string', enum: POST_CATEGORIES },
+              urgency: { type: 'string', enum: URGENCY_LEVELS },
+              relevance: { type: 'number' },
+              phones: { type: 'array', items: { type: 'string' } },
+              addresses: { type: 'array', items: { type: 'string' } },
+              places: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    // Classifies nothing, so callers fall back to the rule-based scorer
+    stub: () => ({ posts: [] }),
+  },
+
+  'image-verification': {
+    version: '2025-06-authenticity.1',
+    capability: 'vision',
+    reasoning: 'auto',
+    system: 'Analyze the image allegedly from a disaster. Is it related to a real-world disaster like a flood, fire, or earthquake? Does it show any obvious signs of digital manipulation or being AI-generated? Respond with a JSON object with keys: "is_authentic" (boolean), "disaster_context" (string, e.g., "Appears to be a real photo of a building fire."), "confidence_score" (number between 0 and 1), and "raw_analysis" (string, your detailed reasoning, at most 100 words).',
+    prompt: 'Analyze this disaster image for authenticity',
+    schema: {
+      type: 'object',
+      required: ['is_authentic', 'disaster_context', 'confidence_score', 'raw_analysis'],
+      properties: {
+        is_authentic: { type: 'boolean' },
+        disaster_context: { type: 'string' },
+        confidence_score: { type: 'number' },
+        raw_analysis: { type: 'string' },
+      },
+    },
+    // Zero confidence always leaves the report for a human to review
+    stub: () => ({
+      is_authentic: false,
+      disaster_context: 'Not analyzed: no AI provider is configured.',
+      confidence_score: 0,
+      raw_analysis: 'The offline stub provider does not inspect images.',
+    }),
+  },
+};
+
+/**
+ * Look a prompt up by id.
+ * @param {string} id - Key of PROMPTS
+ * @returns {Object} The prompt, with its id
+ */
+export const getPrompt = (id) => {
+  const prompt = PROMPTS[id];
+  if (!prompt) throw new Error(`Unknown prompt '${id}'.`);
+  return { id, ...prompt };
+};
@@ -0,0 +1,12 @@
+// src/services/ai/stubProvider.js
+
+/**
+ * Offline provider for tests and air-gapped deployments. It never calls a
+ * model: each prompt answers with the fixed `stub` result from the registry,
+ * so the same input always gives the same output.
+ */
+export const createStubProvider = () => ({
+  name: 'stub',
+  modelFor: () => 'stub',
+  generate: async ({ prompt, text, image }) => JSON.stringify(prompt.stub({ text, image })),
+});
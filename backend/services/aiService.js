@@ -0,0 +1,117 @@
+// src/services/aiService.js
+import { logger } from '../utils/logger.js';
+import { getPrompt } from './ai/prompts.js';
+import { createGeminiProvider } from './ai/geminiProvider.js';
+import { createOpenAICompatibleProvider } from './ai/openaiCompatibleProvider.js';
+import { createStubProvider } from './ai/stubProvider.js';
+
+const AI_CONFIG = {
+  // Without an explicit choice, Gemini is used when it has a key and the offline stub otherwise
+  provider: process.env.AI_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'stub'),
+  timeout: parseInt(process.env.AI_TIMEOUT_MS || '60000', 10),
+  geminiApiKey: process.env.GEMINI_API_KEY,
+  geminiTextModel: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash-lite-preview-06-17',
+  geminiVisionModel: process.env.GEMINI_VISION_MODEL || 'gemini-2.5-flash',
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  openaiApiKey: process.env.OPENAI_API_KEY,
+  openaiTextModel: process.env.OPENAI_TEXT_MODEL || 'gpt-4o-mini',
+  openaiVisionModel: process.env.OPENAI_VISION_MODEL || process.env.OPENAI_TEXT_MODEL || 'gpt-4o-mini',
+  openaiJsonMode: process.env.OPENAI_JSON_MODE || 'json_schema',
+};
+
+const PROVIDER_FACTORIES = {
+  gemini: (config) => createGeminiProvider({
+    apiKey: config.geminiApiKey,
+    textModel: config.geminiTextModel,
+    visionModel: config.geminiVisionModel,
+    timeout: config.timeout,
+  }),
+  openai_compatible: (config) => createOpenAICompatibleProvider({
+    baseUrl: config.openaiBaseUrl,
+    apiKey: config.openaiApiKey,
+    textModel: config.openaiTextModel,
+    visionModel: config.openaiVisionModel,
+    jsonMode: config.openaiJsonMode,
+    timeout: config.timeout,
+  }),
+  stub: () => createStubProvider(),
+};
+
+const createProvider = () => {
+  const factory = PROVIDER_FACTORIES[AI_CONFIG.provider];
+  if (!factory) {
+    logger.warn('Unknown AI provider, using the offline stub', { provider: AI_CONFIG.provider });
+    return createStubProvider();
+  }
+  return factory(AI_CONFIG);
+};
+
+const provider = createProvider();
+logger.info('AI provider configured', { provider: provider.name });
+
+/**
+ * Parse a model's JSON answer. Some models wrap it in a markdown code block
+ * or add prose around it despite being asked not to.
+ * @param {string} text
+ * @returns {Object}
+ */
+const parseJsonResponse = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    const candidate = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+    try {
+      return JSON.parse(candidate);
+    } catch (parseError) {
+      throw new Error(`Model response is not valid JSON: ${parseError.message}`);
+    }
+  }
+};
+
+const run = async (promptId, { text, image }) => {
+  const prompt = getPrompt(promptId);
+  const meta = {
+    provider: provider.name,
+    model: provider.modelFor(prompt.capability),
+    prompt: prompt.id,
+    promptVersion: prompt.version,
+  };
+
+  const responseText = await provider.generate({ prompt, text, image });
+  const data = parseJsonResponse(responseText);
+  const missing = (prompt.schema.required || []).filter(key => data?.[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Model response is missing ${missing.join(', ')}`);
+  }
+
+  logger.info('AI response received', meta);
+  return { data, meta };
+};
+
+/**
+ * Extract structured data from text with a registered prompt.
+ * @param {string} promptId - Key of PROMPTS
+ * @param {string} text - The input, e.g. a disaster description
+ * @returns {Promise<{data: Object, meta: {provider: string, model: string, prompt: string, promptVersion: string}}>}
+ */
+const extractStructured = (promptId, text) => run(promptId, { text });
+
+/**
+ * Analyze an image with a registered prompt.
+ * @param {string} promptId - Key of PROMPTS
+ * @param {{data: Buffer, mimeType: string}} image
+ * @returns {Promise<{data: Object, meta: {provider: string, model: string, prompt: string, promptVersion: string}}>}
+ */
+const analyzeImage = (promptId, image) => run(promptId, { text: getPrompt(promptId).prompt, image });
+
+/**
+ * Whether a real model answers, rather than the offline stub.
+ */
+const isModelConfigured = () => provider.name !== 'stub';
+
+export const aiService = {
+  extractStructured,
+  analyzeImage,
+  isModelConfigured,
+};
@@ -0,0 +1,186 @@
+// src/services/authService.js
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import 'dotenv/config';
+import supabase from '../config/supabaseClient.js';
+import { DEFAULT_ROLE } from '../config/permissions.js';
+import { logger } from '../utils/logger.js';
+
+// create table public.users (
+//   id uuid not null default gen_random_uuid(),
+//   created_at timestamp with time zone not null default now(),
+//   username text not null,
+//   password_hash text not null,
+//   role text not null default 'viewer'::text,
+//   token_version integer not null default 0,
+//   constraint users_pkey primary key (id),
+//   constraint users_username_key unique (username),
+//   constraint users_role_check check (role in ('admin', 'coordinator', 'responder', 'verifier', 'viewer'))
+// ) TABLESPACE pg_default;
+
+const JWT_SECRET = process.env.JWT_SECRET;
+
+if (!JWT_SECRET) {
+  console.error("JWT secret is not defined. Please check your .env file.");
+  throw new Error("FATAL: Missing environment variable JWT_SECRET");
+}
+
+const AUTH_CONFIG = {
+  accessTokenTtl: process.env.JWT_ACCESS_TTL || '15m',
+  refreshTokenTtl: process.env.JWT_REFRESH_TTL || '7d',
+  saltRounds: 10,
+  issuer: 'disaster-response-api',
+};
+
+const hashPassword = (password) => bcrypt.hash(password, AUTH_CONFIG.saltRounds);
+
+const verifyPassword = (password, passwordHash) => bcrypt.compare(password, passwordHash);
+
+/**
+ * Issue a short-lived access token and a longer-lived refresh token for a user.
+ * The refresh token carries the user's token_version so that bumping the
+ * version (e.g. on logout) invalidates every refresh token issued before it.
+ * @param {{id: string, role: string, username: string, token_version: number}} user
+ * @returns {{accessToken: string, refreshToken: string, expiresIn: string}}
+ */
+const issueTokens = (user) => {
+  const accessToken = jwt.sign(
+    { sub: user.id, role: user.role, username: user.username, type: 'access' },
+    JWT_SECRET,
+    { expiresIn: AUTH_CONFIG.accessTokenTtl, issuer: AUTH_CONFIG.issuer }
+  );
+  const refreshToken = jwt.sign(
+    { sub: user.id, ver: user.token_version || 0, type: 'refresh' },
+    JWT_SECRET,
+    { expiresIn: AUTH_CONFIG.refreshTokenTtl, issuer: AUTH_CONFIG.issuer }
+  );
+  return { accessToken, refreshToken, expiresIn: AUTH_CONFIG.accessTokenTtl };
+};
+
+/**
+ * Verify a token and check it is of the expected type.
+ * @param {string} token
+ * @param {'access'|'refresh'} type
+ * @returns {Object} Decoded payload
+ * @throws {Error} with statusCode 401 when the token is invalid or expired
+ */
+const verifyToken = (token, type) => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { issuer: AUTH_CONFIG.issuer });
+    if (payload.type !== type) {
+      throw new Error(`Expected ${type} token`);
+    }
+    return payload;
+  } catch (err) {
+    const error = new Error(
+      err.name === 'TokenExpiredError' ? 'Unauthorized: Token has expired' : 'Unauthorized: Invalid token'
+    );
+    error.statusCode = 401;
+    throw error;
+  }
+};
+
+const verifyAccessToken = (token) => verifyToken(token, 'access');
+
+const verifyRefreshToken = (token) => verifyToken(token, 'refresh');
+
+const findUserByUsername = async (username) => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('username', username)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const findUserById = async (id) => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const createUser = async ({ username, password }) => {
+  const password_hash = await hashPassword(password);
+  const { data, error } = await supabase
+    .from('users')
+    .insert({ username, password_hash, role: DEFAULT_ROLE })
+    .select('*')
+    .single();
+
+  if (error) {
+    // 23505 is Postgres' unique_violation
+    if (error.code === '23505') {
+      const conflict = new Error('Username is already taken.');
+      conflict.statusCode = 409;
+      throw conflict;
+    }
+    throw error;
+  }
+
+  logger.info('User registered', { userId: data.id, username });
+  return data;
+};
+
+const listUsers = async () => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+const updateUserRole = async (id, role) => {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ role })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Invalidate every outstanding refresh token for a user.
+ * @param {{id: string, token_version: number}} user
+ */
+const revokeRefreshTokens = async (user) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ token_version: (user.token_version || 0) + 1 })
+    .eq('id', user.id);
+
+  if (error) throw error;
+};
+
+// Strip the password hash and token version before a user leaves the server
+const toPublicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  created_at: user.created_at,
+});
+
+export const authService = {
+  verifyPassword,
+  issueTokens,
+  verifyAccessToken,
+  verifyRefreshToken,
+  findUserByUsername,
+  findUserById,
+  createUser,
+  listUsers,
+  updateUserRole,
+  revokeRefreshTokens,
+  toPublicUser,
+};
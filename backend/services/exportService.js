@@ -0,0 +1,93 @@
+// src/services/exportService.js
+import { Builder } from 'xml2js';
+
+export const EXPORT_FORMATS = {
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+};
+
+// Raw PostGIS value; the coordinates are exported from latitude/longitude instead
+const OMITTED_COLUMNS = ['location'];
+
+const hasCoordinates = (row) => typeof row.latitude === 'number' && typeof row.longitude === 'number';
+
+const toProperties = (row) => Object.fromEntries(
+  Object.entries(row).filter(([key]) => !OMITTED_COLUMNS.includes(key))
+);
+
+// Flatten arrays and objects so every value fits in a single CSV or KML cell
+const toCellValue = (value) => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : item)).join(';');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Convert rows with latitude/longitude columns into a GeoJSON FeatureCollection.
+ * Rows without coordinates become features with a null geometry.
+ * @param {Object[]} rows
+ * @returns {string}
+ */
+const toGeoJSON = (rows) => JSON.stringify({
+  type: 'FeatureCollection',
+  features: rows.map(row => ({
+    type: 'Feature',
+    id: row.id,
+    geometry: hasCoordinates(row) ? { type: 'Point', coordinates: [row.longitude, row.latitude] } : null,
+    properties: toProperties(row),
+  })),
+});
+
+/**
+ * Convert rows into a KML document with one Placemark per row.
+ * @param {Object[]} rows
+ * @param {{name: string, titleOf: (row: Object) => string, descriptionOf: (row: Object) => string}} options
+ * @returns {string}
+ */
+const toKML = (rows, { name, titleOf, descriptionOf }) => {
+  const placemarks = rows.map(row => ({
+    name: titleOf(row),
+    description: descriptionOf(row) || '',
+    ExtendedData: {
+      Data: Object.entries(toProperties(row)).map(([key, value]) => ({ $: { name: key }, value: toCellValue(value) })),
+    },
+    ...(hasCoordinates(row) && { Point: { coordinates: `${row.longitude},${row.latitude}` } }),
+  }));
+
+  const builder = new Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } });
+  return builder.buildObject({
+    kml: {
+      $: { xmlns: 'http://www.opengis.net/kml/2.2' },
+      Document: { name, Placemark: placemarks },
+    },
+  });
+};
+
+// Quote every cell, and stop spreadsheet apps from treating text as a formula
+const escapeCsvCell = (value) => {
+  let text = toCellValue(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Convert rows into CSV with a header line. Columns are the union of the rows' keys.
+ * @param {Object[]} rows
+ * @returns {string}
+ */
+const toCSV = (rows) => {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(toProperties(row))))];
+  const lines = [
+    columns.map(escapeCsvCell).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvCell(row[column])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const exportService = {
+  toGeoJSON,
+  toKML,
+  toCSV,
+};
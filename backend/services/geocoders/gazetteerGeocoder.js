@@ -0,0 +1,108 @@
+// src/services/geocoders/gazetteerGeocoder.js
+import { readFile } from 'fs/promises';
+import { logger } from '../../utils/logger.js';
+
+// Exact name or alias match vs. a match on the first part of "Place, Region"
+const EXACT_CONFIDENCE = 0.9;
+const PARTIAL_CONFIDENCE = 0.6;
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace so
+ * "São Paulo," and "sao paulo" compare equal.
+ * @param {string} text
+ */
+export const normalizePlaceName = (text) => String(text)
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Offline geocoder that looks places up in a local JSON file of
+ * [{ "name": "Manhattan", "latitude": 40.78, "longitude": -73.97, "aliases": ["..."] }].
+ * The file is read once, on first use.
+ * @param {{path: string}} options
+ */
+export const createGazetteerGeocoder = ({ path }) => {
+  let indexPromise = null;
+
+  const loadIndex = async () => {
+    const entries = JSON.parse(await readFile(path, 'utf8'));
+    const index = new Map();
+    for (const entry of entries) {
+      for (const name of [entry.name, ...(entry.aliases || [])]) {
+        index.set(normalizePlaceName(name), entry);
+      }
+    }
+    logger.info('Gazetteer loaded', { path, places: entries.length });
+    return index;
+  };
+
+  const getIndex = () => {
+    // Retry on the next lookup if the file could not be read
+    indexPromise = indexPromise || loadIndex().catch(err => {
+      indexPromise = null;
+      throw err;
+    });
+    return indexPromise;
+  };
+
+  const toResult = (entry, confidence) => ({
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    label: entry.name,
+    confidence,
+  });
+
+  return {
+    name: 'gazetteer',
+
+    geocode: async (query, { limit = 1 } = {}) => {
+      const index = await getIndex();
+      const candidates = [];
+      const exact = index.get(normalizePlaceName(query));
+      if (exact) candidates.push(toResult(exact, EXACT_CONFIDENCE));
+
+      // "Manhattan, NYC" -> "Manhattan", then "NYC"
+      for (const part of String(query).split(',').map(normalizePlaceName).filter(Boolean)) {
+        const entry = index.get(part);
+        if (entry && !candidates.some(candidate => candidate.label === entry.name)) {
+          candidates.push(toResult(entry, PARTIAL_CONFIDENCE));
+        }
+      }
+      return candidates.slice(0, limit);
+    },
+
+    /**
+     * Find the gazetteer place names mentioned in free text, in the order they
+     * appear, for when no location could be extracted from it otherwise.
+     * Where names overlap ("New York City" vs "New York") the longest wins.
+     * @param {string} text
+     * @returns {Promise<string[]>} Place names as written in the gazetteer
+     */
+    findPlacesInText: async (text) => {
+      const index = await getIndex();
+      const padded = ` ${normalizePlaceName(text)} `;
+      const matches = [];
+      for (const [name, entry] of index) {
+        let position = padded.indexOf(` ${name} `);
+        while (position !== -1) {
+          matches.push({ start: position, end: position + name.length + 1, entry });
+          position = padded.indexOf(` ${name} `, position + 1);
+        }
+      }
+
+      matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+      const names = [];
+      let coveredUntil = -1;
+      for (const match of matches) {
+        if (match.start < coveredUntil) continue;
+        coveredUntil = match.end;
+        if (!names.includes(match.entry.name)) names.push(match.entry.name);
+      }
+      return names;
+    },
+  };
+};
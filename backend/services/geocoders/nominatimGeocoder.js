@@ -0,0 +1,28 @@
+// src/services/geocoders/nominatimGeocoder.js
+import axios from 'axios';
+
+const DEFAULT_URL = 'https://nominatim.openstreetmap.org';
+
+/**
+ * Geocoder backed by OpenStreetMap Nominatim (the public instance or a self-hosted one).
+ * Confidence is Nominatim's importance score (0-1), which ranks well-known
+ * places above obscure ones with the same name.
+ * @param {{url?: string, userAgent?: string, timeout?: number}} options
+ */
+export const createNominatimGeocoder = ({ url = DEFAULT_URL, userAgent, timeout } = {}) => ({
+  name: 'nominatim',
+  geocode: async (query, { limit = 1 } = {}) => {
+    const { data } = await axios.get(`${url.replace(/\/$/, '')}/search`, {
+      params: { q: query, format: 'jsonv2', limit },
+      // Nominatim's usage policy requires an identifying User-Agent
+      headers: { 'User-Agent': userAgent },
+      timeout,
+    });
+    return (Array.isArray(data) ? data : []).slice(0, limit).map(result => ({
+      latitude: Number(result.lat),
+      longitude: Number(result.lon),
+      label: result.display_name || query,
+      confidence: typeof result.importance === 'number' ? result.importance : null,
+    }));
+  },
+});
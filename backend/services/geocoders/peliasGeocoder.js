@@ -0,0 +1,25 @@
+// src/services/geocoders/peliasGeocoder.js
+import axios from 'axios';
+
+/**
+ * Geocoder backed by a Pelias instance. Confidence is Pelias' own score (0-1).
+ * @param {{url: string, apiKey?: string, timeout?: number}} options
+ */
+export const createPeliasGeocoder = ({ url, apiKey, timeout }) => ({
+  name: 'pelias',
+  geocode: async (query, { limit = 1 } = {}) => {
+    const { data } = await axios.get(`${url.replace(/\/$/, '')}/v1/search`, {
+      params: { text: query, size: limit, ...(apiKey && { api_key: apiKey }) },
+      timeout,
+    });
+    return (data?.features || []).map(feature => {
+      const [longitude, latitude] = feature.geometry.coordinates;
+      return {
+        latitude,
+        longitude,
+        label: feature.properties?.label || query,
+        confidence: typeof feature.properties?.confidence === 'number' ? feature.properties.confidence : null,
+      };
+    });
+  },
+});
@@ -0,0 +1,38 @@
+// src/services/geocoders/photonGeocoder.js
+import axios from 'axios';
+
+// Photon does not score its matches, so confidence follows how specific the match is
+const TYPE_CONFIDENCE = {
+  house: 0.9,
+  street: 0.8,
+  district: 0.7,
+  locality: 0.7,
+  city: 0.7,
+  county: 0.5,
+  state: 0.4,
+  country: 0.3,
+};
+
+/**
+ * Geocoder backed by a (usually self-hosted) Photon instance.
+ * @param {{url: string, timeout?: number}} options
+ */
+export const createPhotonGeocoder = ({ url, timeout }) => ({
+  name: 'photon',
+  geocode: async (query, { limit = 1 } = {}) => {
+    const { data } = await axios.get(`${url.replace(/\/$/, '')}/api`, {
+      params: { q: query, limit },
+      timeout,
+    });
+    return (data?.features || []).map(feature => {
+      const [longitude, latitude] = feature.geometry.coordinates;
+      const { name, city, state, country, type } = feature.properties || {};
+      return {
+        latitude,
+        longitude,
+        label: [name, city, state, country].filter(Boolean).join(', ') || query,
+        confidence: TYPE_CONFIDENCE[type] ?? 0.5,
+      };
+    });
+  },
+});
@@ -0,0 +1,191 @@
+// src/services/geocodingService.js
+import { fileURLToPath } from 'url';
+import { logger } from '../utils/logger.js';
+import { createRateLimiter } from '../utils/rateLimiter.js';
+import { cacheService } from './cacheService.js';
+import { createNominatimGeocoder } from './geocoders/nominatimGeocoder.js';
+import { createPhotonGeocoder } from './geocoders/photonGeocoder.js';
+import { createPeliasGeocoder } from './geocoders/peliasGeocoder.js';
+import { createGazetteerGeocoder, normalizePlaceName } from './geocoders/gazetteerGeocoder.js';
+
+const GEOCODING_CONFIG = {
+  // Providers are tried in this order until one finds the place
+  chain: (process.env.GEOCODER_CHAIN || 'nominatim,gazetteer').split(',').map(name => name.trim()).filter(Boolean),
+  timeout: parseInt(process.env.GEOCODER_TIMEOUT_MS || '5000', 10),
+  // Matches scored below this are ignored so the next provider can try
+  minConfidence: parseFloat(process.env.GEOCODER_MIN_CONFIDENCE || '0'),
+  nominatimUrl: process.env.NOMINATIM_URL,
+  userAgent: process.env.GEOCODER_USER_AGENT || 'disaster-response-api',
+  photonUrl: process.env.PHOTON_URL,
+  peliasUrl: process.env.PELIAS_URL,
+  peliasApiKey: process.env.PELIAS_API_KEY,
+  gazetteerPath: process.env.GAZETTEER_PATH || fileURLToPath(new URL('../config/gazetteer.json', import.meta.url)),
+  // The public Nominatim instance allows at most one request per second
+  nominatimMinIntervalMs: parseInt(process.env.NOMINATIM_MIN_INTERVAL_MS || '1000', 10),
+  nominatimMaxQueueDepth: parseInt(process.env.NOMINATIM_MAX_QUEUE_DEPTH || '30', 10),
+  // Places rarely move; misses are kept shorter in case a provider learns the name
+  cacheTtlSeconds: parseInt(process.env.GEOCODE_CACHE_TTL_SECONDS || String(30 * 24 * 3600), 10),
+  negativeCacheTtlSeconds: parseInt(process.env.GEOCODE_NEGATIVE_CACHE_TTL_SECONDS || String(24 * 3600), 10),
+};
+
+const CACHE_KEY_PREFIX = 'geocode:';
+// Alternatives fetched per lookup, so ambiguous names can be offered for picking
+const CANDIDATE_LIMIT = 5;
+
+const nominatimLimiter = createRateLimiter({
+  name: 'nominatim',
+  minIntervalMs: GEOCODING_CONFIG.nominatimMinIntervalMs,
+  maxQueueDepth: GEOCODING_CONFIG.nominatimMaxQueueDepth,
+});
+
+const metrics = { cacheHits: 0, cacheMisses: 0, inFlightShared: 0, providers: {} };
+// Lookups in progress, so concurrent requests for the same place share one
+const inFlight = new Map();
+
+const gazetteer = createGazetteerGeocoder({ path: GEOCODING_CONFIG.gazetteerPath });
+
+// Builders for each provider; null means it is not configured
+const PROVIDER_FACTORIES = {
+  nominatim: (config) => {
+    const nominatim = createNominatimGeocoder({ url: config.nominatimUrl, userAgent: config.userAgent, timeout: config.timeout });
+    return { ...nominatim, geocode: (query) => nominatimLimiter.schedule(() => nominatim.geocode(query)) };
+  },
+  photon: (config) => config.photonUrl && createPhotonGeocoder({ url: config.photonUrl, timeout: config.timeout }),
+  pelias: (config) => config.peliasUrl && createPeliasGeocoder({ url: config.peliasUrl, apiKey: config.peliasApiKey, timeout: config.timeout }),
+  gazetteer: () => gazetteer,
+};
+
+const providers = GEOCODING_CONFIG.chain.flatMap(name => {
+  const factory = PROVIDER_FACTORIES[name];
+  const provider = factory && factory(GEOCODING_CONFIG);
+  if (!provider) {
+    logger.warn('Skipping geocoding provider that is unknown or not configured', { provider: name });
+    return [];
+  }
+  return [provider];
+});
+logger.info('Geocoding providers configured', { chain: providers.map(provider => provider.name) });
+providers.forEach(provider => {
+  metrics.providers[provider.name] = { found: 0, notFound: 0, lowConfidence: 0, errors: 0 };
+});
+
+// Try each provider in order; `complete` is false when a provider errored, so the
+// answer may not be the best one the chain can give
+const geocodeWithChain = async (query) => {
+  const attempts = [];
+  for (const provider of providers) {
+    const counters = metrics.providers[provider.name];
+    try {
+      const results = await provider.geocode(query, { limit: CANDIDATE_LIMIT });
+      const candidates = results
+        .filter(result => (result.confidence ?? 1) >= GEOCODING_CONFIG.minConfidence)
+        .map(result => ({ ...result, provider: provider.name }));
+      if (candidates.length > 0) {
+        counters.found++;
+        logger.info('Geocoded location', { query, provider: provider.name, confidence: candidates[0].confidence, candidates: candidates.length, attempts });
+        return { candidates, complete: attempts.every(attempt => attempt.outcome !== 'error') };
+      }
+      const outcome = results.length > 0 ? 'low_confidence' : 'not_found';
+      counters[outcome === 'low_confidence' ? 'lowConfidence' : 'notFound']++;
+      attempts.push({ provider: provider.name, outcome });
+    } catch (error) {
+      counters.errors++;
+      logger.warn('Geocoding provider failed', { query, provider: provider.name, error: error.message });
+      attempts.push({ provider: provider.name, outcome: 'error', error: error.message });
+    }
+  }
+
+  logger.warn('No geocoding provider could locate the place', { query, attempts });
+  return { candidates: [], complete: attempts.every(attempt => attempt.outcome !== 'error') };
+};
+
+const lookup = async (key, query) => {
+  const cached = await cacheService.get(key);
+  if (cached) {
+    metrics.cacheHits++;
+    // Entries written before candidates were cached hold a single result
+    return cached.found ? (cached.candidates || [cached.result]) : [];
+  }
+  metrics.cacheMisses++;
+
+  const { candidates, complete } = await geocodeWithChain(query);
+  if (candidates.length > 0) {
+    // A fallback answer given while a preferred provider was down is only kept briefly
+    const ttl = complete ? GEOCODING_CONFIG.cacheTtlSeconds : GEOCODING_CONFIG.negativeCacheTtlSeconds;
+    await cacheService.set(key, { found: true, candidates }, ttl);
+  } else if (complete) {
+    // Only remember a miss when every provider actually answered
+    await cacheService.set(key, { found: false }, GEOCODING_CONFIG.negativeCacheTtlSeconds);
+  }
+  return candidates;
+};
+
+/**
+ * Find the possible matches for a place name, best first, from the first
+ * provider in the chain that finds it. A provider that errors (e.g. offline)
+ * or scores below the minimum confidence is skipped, and the next one is
+ * tried. Results are cached by normalized place name, and Nominatim requests
+ * are rate limited.
+ *
+ * @param {string} query - Place name or address
+ * @returns {Promise<Array<{latitude: number, longitude: number, label: string, provider: string, confidence: number|null}>>}
+ */
+const findCandidates = async (query) => {
+  const normalized = normalizePlaceName(query);
+  if (!normalized) return [];
+  const key = `${CACHE_KEY_PREFIX}${normalized}`;
+
+  if (inFlight.has(key)) {
+    metrics.inFlightShared++;
+    return inFlight.get(key);
+  }
+  const pending = lookup(key, query).finally(() => inFlight.delete(key));
+  inFlight.set(key, pending);
+  return pending;
+};
+
+/**
+ * Geocode a place name to its best match (see findCandidates).
+ * @param {string} query - Place name or address
+ * @returns {Promise<{latitude: number, longitude: number, label: string, provider: string, confidence: number|null}|null>}
+ */
+const geocode = async (query) => (await findCandidates(query))[0] || null;
+
+/**
+ * Look for known place names in free text using the offline gazetteer.
+ * @param {string} text
+ * @returns {Promise<string[]>}
+ */
+const findPlacesInText = async (text) => {
+  try {
+    return await gazetteer.findPlacesInText(text);
+  } catch (error) {
+    logger.warn('Gazetteer lookup failed', { error: error.message });
+    return [];
+  }
+};
+
+/**
+ * Counters for monitoring the cache and the Nominatim rate limiter.
+ */
+const getStats = () => {
+  const lookups = metrics.cacheHits + metrics.cacheMisses;
+  return {
+    chain: providers.map(provider => provider.name),
+    cache: {
+      hits: metrics.cacheHits,
+      misses: metrics.cacheMisses,
+      hitRate: lookups > 0 ? metrics.cacheHits / lookups : null,
+      inFlightShared: metrics.inFlightShared,
+    },
+    rateLimiter: nominatimLimiter.getStats(),
+    providers: metrics.providers,
+  };
+};
+
+export const geocodingService = {
+  geocode,
+  findCandidates,
+  findPlacesInText,
+  getStats,
+};
@@ -0,0 +1,188 @@
+// src/services/imageForensicsService.js
+import { readImageMetadata } from '../utils/imageMetadata.js';
+
+// How much each signal moves the combined verdict; the AI verdict weighs 1
+const WEIGHTS = {
+  camera: 0.1,
+  editingSoftware: 0.2,
+  generatorSoftware: 0.5,
+  captureTimeMatches: 0.15,
+  captureTimeBeforeDisaster: 0.3,
+  captureTimeInFuture: 0.2,
+  gpsNearDisaster: 0.25,
+  gpsFarFromDisaster: 0.35,
+  tinyImage: 0.1,
+  generatorDimensions: 0.15,
+  heavyCompression: 0.1,
+};
+
+// Photos taken this long before a disaster was reported are probably of something else
+const MAX_DAYS_BEFORE_DISASTER = 7;
+// Clocks on phones are often a little off, so allow some slack into the future
+const MAX_HOURS_IN_FUTURE = 24;
+const NEAR_DISASTER_KM = 50;
+const FAR_FROM_DISASTER_KM = 200;
+const MIN_DIMENSION = 200;
+const LOW_JPEG_QUALITY = 60;
+
+const EDITING_SOFTWARE = /photoshop|gimp|lightroom|snapseed|picsart|affinity|pixelmator|facetune|canva|paint\.net/i;
+const GENERATOR_SOFTWARE = /midjourney|dall[-·\s]?e|stable diffusion|firefly|imagen|novelai|comfyui|automatic1111|invokeai/i;
+// Canvas sizes typical of image generators
+const GENERATOR_SIZES = new Set(['512x512', '768x768', '1024x1024', '1024x1792', '1792x1024', '1536x1024', '1024x1536']);
+// PNG text chunks written by Stable Diffusion front ends
+const GENERATOR_PNG_KEYS = ['parameters', 'prompt', 'workflow', 'sd-metadata'];
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Great-circle distance in kilometres
+const distanceKm = (a, b) => {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * @typedef {Object} VerificationSignal
+ * @property {string} id - Stable identifier, e.g. 'exif_gps_distance'
+ * @property {'forensics'|'ai'} source
+ * @property {'supports'|'contradicts'|'neutral'} outcome - Whether it points to an authentic disaster photo
+ * @property {number} weight - How much it counts towards the verdict (0 for neutral signals)
+ * @property {string} explanation - Human-readable reason
+ */
+
+const signal = (id, outcome, weight, explanation) => ({
+  id,
+  source: 'forensics',
+  outcome,
+  weight: outcome === 'neutral' ? 0 : weight,
+  explanation,
+});
+
+const softwareSignals = (software, textKeys = []) => {
+  const generatorKey = textKeys.find(key => GENERATOR_PNG_KEYS.includes(key.toLowerCase()));
+  if (generatorKey) {
+    return [signal('generator_metadata', 'contradicts', WEIGHTS.generatorSoftware,
+      `The PNG carries a "${generatorKey}" text chunk, which image generators write.`)];
+  }
+  if (!software) return [];
+  if (GENERATOR_SOFTWARE.test(software)) {
+    return [signal('editing_software', 'contradicts', WEIGHTS.generatorSoftware, `Software tag names an image generator (${software}).`)];
+  }
+  if (EDITING_SOFTWARE.test(software)) {
+    return [signal('editing_software', 'contradicts', WEIGHTS.editingSoftware, `Image was saved by editing software (${software}).`)];
+  }
+  return [signal('editing_software', 'neutral', 0, `Software tag (${software}) is not a known editor.`)];
+};
+
+const captureTimeSignal = (captureTime, disaster) => {
+  if (!captureTime) return signal('exif_capture_time', 'neutral', 0, 'No capture time in the EXIF data.');
+  const captured = new Date(captureTime).getTime();
+  // Without a timezone the EXIF time is local, so the comparison is only good to about a day
+  const slack = DAY_MS;
+
+  if (captured > Date.now() + MAX_HOURS_IN_FUTURE * 3600 * 1000) {
+    return signal('exif_capture_time', 'contradicts', WEIGHTS.captureTimeInFuture, `Capture time ${captureTime} is in the future.`);
+  }
+  if (!disaster?.created_at) {
+    return signal('exif_capture_time', 'neutral', 0, `Captured ${captureTime}; no disaster date to compare with.`);
+  }
+  const reported = new Date(disaster.created_at).getTime();
+  const daysBefore = (reported - captured) / DAY_MS;
+  if (reported - captured > MAX_DAYS_BEFORE_DISASTER * DAY_MS + slack) {
+    return signal('exif_capture_time', 'contradicts', WEIGHTS.captureTimeBeforeDisaster,
+      `Captured ${Math.round(daysBefore)} days before the disaster was reported, so it may show an earlier event.`);
+  }
+  return signal('exif_capture_time', 'supports', WEIGHTS.captureTimeMatches,
+    daysBefore > 0
+      ? `Captured ${Math.round(daysBefore * 24)} hours before the disaster was reported.`
+      : 'Captured after the disaster was reported.');
+};
+
+const gpsSignal = (gps, disaster) => {
+  if (!gps) return signal('exif_gps_distance', 'neutral', 0, 'No GPS position in the EXIF data.');
+  if (!Number.isFinite(disaster?.latitude) || !Number.isFinite(disaster?.longitude)) {
+    return signal('exif_gps_distance', 'neutral', 0, 'The image has a GPS position, but the disaster has no location to compare with.');
+  }
+  const km = Math.round(distanceKm(gps, disaster));
+  if (km <= NEAR_DISASTER_KM) {
+    return signal('exif_gps_distance', 'supports', WEIGHTS.gpsNearDisaster, `Taken ${km} km from the disaster location.`);
+  }
+  if (km >= FAR_FROM_DISASTER_KM) {
+    return signal('exif_gps_distance', 'contradicts', WEIGHTS.gpsFarFromDisaster, `Taken ${km} km away from the disaster location.`);
+  }
+  return signal('exif_gps_distance', 'neutral', 0, `Taken ${km} km from the disaster location.`);
+};
+
+const dimensionSignals = (metadata) => {
+  const { width, height, format, quality, exif } = metadata;
+  const signals = [];
+  if (width && height) {
+    if (Math.min(width, height) < MIN_DIMENSION) {
+      signals.push(signal('dimensions', 'contradicts', WEIGHTS.tinyImage,
+        `Only ${width}x${height} pixels, typical of a thumbnail or a re-shared copy.`));
+    } else if (GENERATOR_SIZES.has(`${width}x${height}`) && !exif?.make) {
+      signals.push(signal('dimensions', 'contradicts', WEIGHTS.generatorDimensions,
+        `${width}x${height} with no camera information is a common image generator size.`));
+    } else {
+      signals.push(signal('dimensions', 'neutral', 0, `${width}x${height} pixels.`));
+    }
+  }
+  if (format === 'jpeg' && quality) {
+    signals.push(quality < LOW_JPEG_QUALITY
+      ? signal('compression', 'contradicts', WEIGHTS.heavyCompression,
+        `JPEG quality is about ${quality}, suggesting it was recompressed several times.`)
+      : signal('compression', 'neutral', 0, `JPEG quality is about ${quality}.`));
+  }
+  return signals;
+};
+
+/**
+ * Inspect an image locally, without any AI, for signs that it does or does
+ * not show the disaster: EXIF camera, editing software, capture time and GPS
+ * (compared with the disaster's date and location), dimensions and JPEG
+ * compression.
+ *
+ * @param {Buffer} buffer - The image file
+ * @param {{latitude?: number, longitude?: number, created_at?: string}|null} [disaster]
+ * @returns {{metadata: Object, signals: VerificationSignal[]}}
+ */
+const analyze = (buffer, disaster = null) => {
+  const metadata = readImageMetadata(buffer);
+  const exif = metadata.exif || null;
+  const signals = [];
+
+  if (metadata.format === 'unknown') {
+    signals.push(signal('format', 'neutral', 0, 'Unrecognized image format; header checks skipped.'));
+    return { metadata: { format: metadata.format, byteSize: buffer.length }, signals };
+  }
+
+  if (exif?.make || exif?.model) {
+    signals.push(signal('exif_camera', 'supports', WEIGHTS.camera, `Taken with ${[exif.make, exif.model].filter(Boolean).join(' ')}.`));
+  } else {
+    // Most social networks strip EXIF, so its absence proves nothing
+    signals.push(signal('exif_camera', 'neutral', 0, 'No camera information in the EXIF data.'));
+  }
+  signals.push(...softwareSignals(exif?.software, metadata.textKeys));
+  signals.push(captureTimeSignal(exif?.captureTime, disaster));
+  signals.push(gpsSignal(exif?.gps, disaster));
+  signals.push(...dimensionSignals(metadata));
+
+  return {
+    metadata: {
+      format: metadata.format,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      byteSize: buffer.length,
+      jpegQuality: metadata.quality ?? null,
+      exif,
+    },
+    signals,
+  };
+};
+
+export const imageForensicsService = {
+  analyze,
+};
@@ -0,0 +1,118 @@
+// src/services/imageHashService.js
+import sharp from 'sharp';
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+
+// create table public.image_hashes (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   hash bit(64) not null,
+//   image_url text null,
+//   report_id bigint null,
+//   disaster_id bigint null,
+//   source text not null check (source in ('report', 'verify_image')),
+//   constraint image_hashes_pkey primary key (id),
+//   constraint image_hashes_report_id_fkey foreign key (report_id) references reports (id) on delete set null,
+//   constraint image_hashes_disaster_id_fkey foreign key (disaster_id) references disasters (id) on delete set null
+// );
+// create index image_hashes_report_id_idx on public.image_hashes (report_id);
+// create index image_hashes_hash_url_idx on public.image_hashes (hash, image_url);
+//
+// Indexed images within p_max_distance bits of p_hash, closest first, with the
+// disaster each belongs to (Hamming distance over the 64-bit difference hash)
+// create or replace function public.similar_images(p_hash text, p_max_distance int, p_limit int)
+// returns table (id bigint, created_at timestamptz, image_url text, report_id bigint, disaster_id bigint,
+//                disaster_title text, source text, distance int)
+// language sql stable as $$
+//   select h.id, h.created_at, h.image_url, h.report_id, h.disaster_id, d.title, h.source,
+//          bit_count(h.hash # p_hash::bit(64))::int as distance
+//   from public.image_hashes h
+//   left join public.disasters d on d.id = h.disaster_id
+//   where bit_count(h.hash # p_hash::bit(64)) <= p_max_distance
+//   order by distance, h.created_at
+//   limit p_limit;
+// $$;
+
+// Hashes up to this many bits apart (of 64) are treated as the same picture,
+// which tolerates resizing, recompression and small crops or overlays
+const DEFAULT_MAX_DISTANCE = 10;
+const DEFAULT_LIMIT = 10;
+
+// The difference hash compares each pixel of a 9x8 greyscale thumbnail with its right neighbour
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Compute a 64-bit difference hash (dHash) of an image. Visually similar
+ * images get hashes that differ in few bits.
+ * @param {Buffer} buffer - The image file
+ * @returns {Promise<string>} 64 characters of '0' and '1'
+ */
+const computeHash = async (buffer) => {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let bits = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      bits += left > right ? '1' : '0';
+    }
+  }
+  return bits;
+};
+
+/**
+ * Find indexed images that look like the given one.
+ * @param {string} hash - From computeHash()
+ * @param {{maxDistance?: number, limit?: number, excludeReportId?: string|number}} [options]
+ * @returns {Promise<Array<{id: number, created_at: string, image_url: string|null, report_id: number|null, disaster_id: number|null, disaster_title: string|null, source: string, distance: number}>>}
+ */
+const findSimilar = async (hash, { maxDistance = DEFAULT_MAX_DISTANCE, limit = DEFAULT_LIMIT, excludeReportId } = {}) => {
+  // Ask for one more so excluding the report itself still leaves `limit` matches
+  const { data, error } = await supabase.rpc('similar_images', {
+    p_hash: hash,
+    p_max_distance: maxDistance,
+    p_limit: limit + 1,
+  });
+  if (error) throw error;
+  return data
+    .filter(match => excludeReportId === undefined || String(match.report_id) !== String(excludeReportId))
+    .slice(0, limit);
+};
+
+/**
+ * Add an image to the index so later submissions can be matched against it.
+ * Failures are logged rather than thrown; a missing index entry only means a
+ * later duplicate may go unnoticed.
+ * @param {{hash: string, imageUrl?: string, reportId?: string|number, disasterId?: string|number, source: 'report'|'verify_image'}} entry
+ */
+const indexImage = async ({ hash, imageUrl, reportId, disasterId, source }) => {
+  // Verifying the same report or image again must not add a second entry for it;
+  // repeated copies would crowd real matches out of findSimilar()'s limited results
+  let lookup = supabase.from('image_hashes').select('id').limit(1);
+  if (reportId !== undefined) lookup = lookup.eq('report_id', reportId);
+  else lookup = imageUrl ? lookup.eq('hash', hash).eq('image_url', imageUrl) : lookup.eq('hash', hash).is('image_url', null);
+  const { data: existing } = await lookup;
+  if (existing?.length > 0) return;
+
+  const { error } = await supabase.from('image_hashes').insert({
+    hash,
+    image_url: imageUrl ?? null,
+    report_id: reportId ?? null,
+    disaster_id: disasterId ?? null,
+    source,
+  });
+  if (error) logger.error('Error indexing image hash', { error: error.message, reportId, imageUrl });
+};
+
+export const imageHashService = {
+  computeHash,
+  findSimilar,
+  indexImage,
+};
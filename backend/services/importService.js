@@ -0,0 +1,181 @@
+// src/services/importService.js
+import path from 'path';
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Column names recognised without an explicit mapping, per target field
+const DEFAULT_ALIASES = {
+  title: ['title', 'name', 'incident', 'event'],
+  name: ['name', 'title', 'facility', 'site'],
+  description: ['description', 'details', 'summary', 'notes'],
+  tags: ['tags', 'tag', 'categories', 'type'],
+  severity: ['severity', 'level'],
+  status: ['status'],
+  resource_type: ['resource_type', 'type', 'category'],
+  quantity: ['quantity', 'qty', 'count', 'available'],
+  capacity: ['capacity', 'max_capacity'],
+  unit: ['unit', 'units'],
+  disaster_id: ['disaster_id'],
+  location_name: ['location_name', 'address', 'location', 'place'],
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'lon', 'lng', 'long', 'x'],
+};
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF or LF line endings).
+ * The first line is the header.
+ * @param {string} text
+ * @returns {Object[]} One object per data line, keyed by header
+ */
+const parseCSV = (text) => {
+  const records = [];
+  let record = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw badRequest('CSV has an unterminated quoted field.');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...lines] = records.filter(line => line.some(value => value.trim() !== ''));
+  if (!header) throw badRequest('CSV file is empty.');
+  const columns = header.map(column => column.trim());
+  return lines.map(line => Object.fromEntries(columns.map((column, index) => [column, (line[index] ?? '').trim()])));
+};
+
+/**
+ * Turn a GeoJSON FeatureCollection (or single Feature) into flat rows:
+ * the feature properties plus latitude/longitude for Point geometries.
+ * @param {string} text
+ * @returns {Object[]}
+ */
+const parseGeoJSON = (text) => {
+  let geojson;
+  try {
+    geojson = JSON.parse(text);
+  } catch {
+    throw badRequest('GeoJSON file is not valid JSON.');
+  }
+
+  const features = geojson?.type === 'FeatureCollection' ? geojson.features
+    : geojson?.type === 'Feature' ? [geojson]
+      : null;
+  if (!Array.isArray(features)) throw badRequest('GeoJSON must be a Feature or FeatureCollection.');
+
+  return features.map(feature => {
+    const row = { ...(feature?.properties || {}) };
+    const geometry = feature?.geometry;
+    if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+      [row.longitude, row.latitude] = geometry.coordinates;
+    }
+    return row;
+  });
+};
+
+/**
+ * Detect the format of an uploaded file and parse it into rows.
+ * @param {{buffer: Buffer, originalname: string}} file - Multer file
+ * @param {'csv'|'geojson'} [format] - Overrides detection by extension
+ * @returns {{format: string, rows: Object[]}}
+ */
+const parseImportFile = (file, format) => {
+  const extension = path.extname(file.originalname || '').toLowerCase();
+  const detected = format || (extension === '.csv' ? 'csv' : 'geojson');
+  if (!['csv', 'geojson'].includes(detected)) throw badRequest("format must be 'csv' or 'geojson'.");
+
+  // Strip a UTF-8 byte order mark, which spreadsheet exports often add
+  const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const rows = detected === 'csv' ? parseCSV(text) : parseGeoJSON(text);
+
+  if (rows.length === 0) throw badRequest('The file has no rows to import.');
+  if (rows.length > MAX_IMPORT_ROWS) throw badRequest(`At most ${MAX_IMPORT_ROWS} rows can be imported at once.`);
+  return { format: detected, rows };
+};
+
+/**
+ * Parse a column mapping sent as JSON, e.g. {"title": "Incident Name", "latitude": "Y"}.
+ * @param {string|Object|undefined} raw
+ * @param {string[]} fields - Target fields that may be mapped
+ * @returns {Object} field -> source column
+ */
+const parseMapping = (raw, fields) => {
+  if (raw === undefined || raw === '') return {};
+  let mapping;
+  try {
+    mapping = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch {
+    throw badRequest('mapping must be a JSON object of field to column name.');
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw badRequest('mapping must be a JSON object of field to column name.');
+  }
+  const unknown = Object.keys(mapping).find(field => !fields.includes(field));
+  if (unknown) throw badRequest(`Unknown mapping field '${unknown}'. Fields: ${fields.join(', ')}.`);
+  return mapping;
+};
+
+/**
+ * Pick the target fields out of a source row, using the explicit mapping first
+ * and falling back to common column names (matched case-insensitively).
+ * @param {Object} row - Parsed source row
+ * @param {string[]} fields - Target fields
+ * @param {Object} mapping - Result of parseMapping()
+ * @returns {Object} field -> raw value (missing fields are left out)
+ */
+const mapRow = (row, fields, mapping) => {
+  const columns = Object.keys(row);
+  const findColumn = (name) => columns.find(column => column.toLowerCase() === String(name).toLowerCase());
+
+  const mapped = {};
+  for (const field of fields) {
+    const candidates = mapping[field] ? [mapping[field]] : (DEFAULT_ALIASES[field] || [field]);
+    for (const candidate of candidates) {
+      const column = findColumn(candidate);
+      if (column !== undefined && row[column] !== '' && row[column] !== null && row[column] !== undefined) {
+        mapped[field] = row[column];
+        break;
+      }
+    }
+  }
+  return mapped;
+};
+
+export const importService = {
+  parseImportFile,
+  parseMapping,
+  mapRow,
+};
@@ -1,111 +1,155 @@
-import { GoogleGenAI, Type } from '@google/genai'; 
-
-import NodeGeocoder from 'node-geocoder';
 import { logger } from '../utils/logger.js';
+import { geocodingService } from './geocodingService.js';
+import { aiService } from './aiService.js';
+import { LOCATION_ROLES } from './ai/prompts.js';
 
-const ai = new GoogleGenAI(process.env.GEMINI_API_KEY);
-logger.info('Google GenAI client initialized successfully.');
-
-const config = {
-    thinkingConfig: {
-      thinkingBudget: 0,
-    },
-    responseMimeType: 'application/json',
-    responseSchema: {
-      type: Type.OBJECT,
-      required: ["location"],
-      properties: {
-        location: {
-          type: Type.STRING,
-        },
-      },
-    },
-    systemInstruction: [
-        {
-          text: `From the disaster description, extract the most specific location name (like a city, neighborhood, or landmark). Respond with ONLY a JSON object with a single key "location". For example: {"location": "Manhattan, NYC"}. If no location is found, respond with {"location": null}`,
-        }
-    ],
-  };
-  const model = 'gemini-2.5-flash-lite-preview-06-17';
+export { LOCATION_ROLES };
 
-  const geocoderOptions = {
-  provider: 'openstreetmap',
+// Make sure there is exactly one primary place, and drop repeats
+const normalizeRoles = (locations) => {
+    const seen = new Set();
+    const unique = locations.filter(({ name }) => {
+        const key = name.trim().toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    const primaryIndex = Math.max(unique.findIndex(location => location.role === 'primary'), 0);
+    return unique.map((location, index) => ({
+        name: location.name.trim(),
+        role: index === primaryIndex ? 'primary'
+            : location.role === 'shelter_site' ? 'shelter_site' : 'affected_area',
+    }));
 };
-const geocoder = NodeGeocoder(geocoderOptions);
 
-const extractLocation = async (description) => {
+const extractLocationsWithAI = async (description) => {
 try{
-      const contents = [{
-      role: 'user',
-      parts: [{ text: description }],
-    }];
-
-    const response = await ai.models.generateContent({
-        model,
-        config,
-        contents,
-        
-    });
-    const text = response.text;
-    logger.info('Location extraction response received', {  text });
-    const responseText = response.text;
-    const data = JSON.parse(responseText);
-
-    if(data && data.location){
-
-        const location = data.location
-        logger.info('Extracted location:', { location });
-        return location;
+    const { data, meta } = await aiService.extractStructured('location-extraction', description);
 
+    if (data && Array.isArray(data.locations) && data.locations.length > 0) {
+        const locations = data.locations.filter(location => location && typeof location.name === 'string');
+        logger.info('Extracted locations:', { locations, ...meta });
+        return locations;
     }
-    logger.warn('No location found in the response', { responseText });
-    return null;
+    logger.warn('No location found in the response', meta);
+    return [];
 }
 catch (error) {
     logger.error('Error extracting location:', { error: error.message, description });
     throw new Error('Failed to extract location from description');
   }
-  
-
-
 }
 
+/**
+ * Extract the places mentioned in a disaster description, with their roles.
+ * If the AI extraction is unavailable or finds nothing, known place names
+ * from the offline gazetteer are looked for in the text instead (the first
+ * one found is taken as primary).
+ * @param {string} description
+ * @returns {Promise<Array<{name: string, role: string}>>}
+ */
+export const extractLocations = async (description) => {
+    let locations = [];
+    try {
+        locations = await extractLocationsWithAI(description);
+    } catch (error) {
+        logger.warn('AI location extraction unavailable, falling back to the gazetteer', { error: error.message });
+    }
+    if (locations.length === 0) {
+        const names = await geocodingService.findPlacesInText(description);
+        locations = names.map(name => ({ name, role: 'affected_area' }));
+    }
+    return normalizeRoles(locations);
+};
 
-const geocodeLocationName = async (locationName) => {
+/**
+ * Geocode a place name through the configured provider chain.
+ * @param {string} locationName
+ * @returns {Promise<{latitude: number, longitude: number, label: string, provider: string, confidence: number|null}|null>}
+ */
+export const geocodeLocationName = async (locationName) => {
     if (!locationName) {
         logger.warn('No location name provided for geocoding');
         return null;
     }
-    try{
-        const res = await geocoder.geocode(locationName);
-        if(res && res.length > 0) {
-            const { latitude, longitude } = res[0];
-            logger.info('Geocoded location', { locationName, latitude, longitude });
-            return { latitude, longitude };
-        }
-        return null;
+    return geocodingService.geocode(locationName);
+}
+
+/**
+ * Extract every place from a disaster description and look up the possible
+ * matches for each, so a reporter can pick between ambiguous ones.
+ * @param {string} description
+ * @returns {Promise<Array<{name: string, role: string, candidates: Object[]}>>}
+ */
+export const extractLocationCandidates = async (description) => {
+    const locations = await extractLocations(description);
+    const results = [];
+    // One at a time, so a burst of places doesn't overflow the geocoder rate limit queue
+    for (const location of locations) {
+        results.push({ ...location, candidates: await geocodingService.findCandidates(location.name) });
+    }
+    return results;
+};
 
+/**
+ * Extract every place from a disaster description and geocode each to its best match.
+ * Places that cannot be geocoded are left out.
+ * @param {string} description
+ * @returns {Promise<Array<{name: string, role: string, latitude: number, longitude: number, label: string, provider: string, confidence: number|null}>>}
+ */
+export const extractAndGeocodeAll = async (description) => {
+    const located = [];
+    for (const { candidates, ...location } of await extractLocationCandidates(description)) {
+        if (candidates.length === 0) {
+            logger.warn('Failed to geocode the extracted location', { locationName: location.name });
+            continue;
+        }
+        located.push({ ...location, ...candidates[0] });
     }
-    catch (error){
-            logger.error('Error geocoding location:', { error: error.message, locationName });
-            return null;
+    // The primary place may have failed to geocode; promote the next one
+    if (located.length > 0 && !located.some(location => location.role === 'primary')) {
+        located[0] = { ...located[0], role: 'primary' };
     }
-}
+    return located;
+};
 
+/**
+ * Extract the primary location from a disaster description and geocode it.
+ * @param {string} description
+ * @returns {Promise<{locationName: string, lat: number, lon: number, provider: string, confidence: number|null}|null>}
+ */
 export const extractAndGeocode = async (description) => {
-    const locationName = await extractLocation(description);
-    if (!locationName) {
+    const primary = (await extractAndGeocodeAll(description)).find(location => location.role === 'primary');
+    if (!primary) {
         logger.warn('No location name extracted from description');
         return null;
     }
-    const geocodedLocation = await geocodeLocationName(locationName);
-    if (!geocodedLocation) {
-        logger.warn('Failed to geocode the extracted location', { locationName });
-        return null;
+    return {
+        locationName: primary.name,
+        lat: primary.latitude,
+        lon: primary.longitude,
+        provider: primary.provider,
+        confidence: primary.confidence,
+    };
+};
+
+/**
+ * Columns describing a disaster's places: the primary point, a multi-point
+ * geometry of every place, and the places themselves with their roles.
+ * @param {Array<{name: string, role: string, latitude: number, longitude: number, provider?: string, confidence?: number|null}>} locations
+ */
+export const toDisasterLocationColumns = (locations) => {
+    const primary = locations.find(location => location.role === 'primary') || locations[0];
+    if (!primary) {
+        return { location_name: null, location: null, affected_area: null, locations: [], geocode_provider: null, geocode_confidence: null };
     }
     return {
-        locationName,
-        lat: geocodedLocation.latitude, 
-        lon: geocodedLocation.longitude,
+        location_name: primary.name,
+        location: `POINT(${primary.longitude} ${primary.latitude})`,
+        affected_area: `MULTIPOINT(${locations.map(location => `(${location.longitude} ${location.latitude})`).join(', ')})`,
+        locations: locations.map(({ name, role, latitude, longitude, provider = null, confidence = null }) =>
+            ({ name, role, latitude, longitude, provider, confidence })),
+        geocode_provider: primary.provider ?? null,
+        geocode_confidence: primary.confidence ?? null,
     };
-}
+};
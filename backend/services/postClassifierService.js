@@ -0,0 +1,256 @@
+// src/services/postClassifierService.js
+import { logger } from '../utils/logger.js';
+import { aiService } from './aiService.js';
+import { geocodingService } from './geocodingService.js';
+import { POST_CATEGORIES, URGENCY_LEVELS } from './ai/prompts.js';
+
+export { POST_CATEGORIES, URGENCY_LEVELS };
+
+// Posts sent to the model per request
+const AI_BATCH_SIZE = 20;
+// Distinct places and addresses geocoded per batch; the rest keep their text only,
+// so a busy feed cannot flood the geocoder's rate limit queue
+const MAX_GEOCODE_LOOKUPS = 10;
+// Below this relevance, a post with no category signal is irrelevant
+const MIN_RELEVANCE = 25;
+
+// Phrases that point to each category, with how strongly
+const CATEGORY_RULES = {
+  need_help: [
+    [/\b(sos|stranded|trapped|stuck|missing|please help|help us|need (help|rescue|water|food|medicine|insulin|oxygen|shelter|a ride|supplies))\b/i, 3],
+    [/\b(need|needs|needed|looking for|anyone have|can anyone|requesting)\b/i, 1],
+  ],
+  offering_help: [
+    [/\b(offering|volunteers? (needed|available)|free (water|food|meals|rides?|shelter|supplies)|can (help|take|give|drive|move|host)|we have|shelter (is )?open|open to (all|anyone)|donations? (accepted|available))\b/i, 3],
+    [/\b(available|free|volunteer(s|ing)?|donat(e|ing|ions?)|pet-friendly|hot meals)\b/i, 1],
+  ],
+  damage_report: [
+    [/\b(destroyed|collapsed?|washed away|burn(ed|t) down|injur(ed|ies)|dead|killed|casualties|fatalit(y|ies)|cracks in)\b/i, 3],
+    [/\b(damaged?|cracks?|debris|flooded|roof|fallen trees?|on fire)\b/i, 1],
+  ],
+  infrastructure_status: [
+    [/\b((road|bridge|highway|route|freeway|interstate|street)s? (is |are )?(closed|reopened|blocked|out)|power (is )?(out|back|restored)|outages?|boil (water )?advisory|water (is )?(back|off|restored)|cell service|detour|evacuation (order|warning)s?)\b/i, 3],
+    [/\b(road|bridge|highway|power|electricity|water main|internet|transit|airport|closed|reopened)\b/i, 1],
+  ],
+  misinformation: [
+    [/\b(hoax|cover.?up|they don'?t want you to know|share before (they|it)|government is hiding|staged|on purpose|chemtrails?|false flag|weather (weapon|control))\b/i, 4],
+    [/\b(rumou?r|heard that|unconfirmed|apparently)\b/i, 1],
+  ],
+};
+
+// Ties between categories go to the one listed first
+const CATEGORY_PRIORITY = ['need_help', 'misinformation', 'damage_report', 'infrastructure_status', 'offering_help'];
+
+const URGENCY_RULES = [
+  ['critical', /\b(sos|trapped|stranded|drowning|can'?t breathe|life.?threatening|unconscious|bleeding|insulin|oxygen|water (is )?rising|on the roof|leave now|evacuate now)\b/i],
+  ['high', /\b(urgent|asap|immediately|right now|evacuation order|injur(ed|ies)|medical|no (water|food|power) for)\b/i],
+  ['medium', /\b(need|needs|closed|outage|damaged?|help|shelter)\b/i],
+];
+
+// General disaster vocabulary that makes a post more likely to be on topic
+const DISASTER_TERMS = /\b(emergency|evacuat\w*|shelter|relief|rescue|disaster|first responders?|red cross|fema)\b/gi;
+
+const PHONE_PATTERN = /(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b|\b\d{3}[\s.-]\d{4}\b/g;
+const STREET_SUFFIXES = 'st|street|ave|avenue|rd|road|blvd|boulevard|dr|drive|ln|lane|way|ct|court|pl|place|hwy|highway|pkwy|parkway|ter|terrace|cir|circle';
+const ADDRESS_PATTERN = new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z][\\w'.-]*\\s+){1,4}(?:${STREET_SUFFIXES})\\b`, 'gi');
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const unique = (values) => {
+  const seen = new Set();
+  return values.map(value => String(value).trim()).filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * How much a post concerns the disaster (0-100). Keywords count as whole
+ * words, so "at" no longer matches "that".
+ * @param {string} text
+ * @param {string[]} keywords
+ */
+const scoreRelevance = (text, keywords) => {
+  let score = 0;
+  for (const keyword of keywords) {
+    const phrase = keyword.trim();
+    if (!phrase) continue;
+    if (new RegExp(`#${escapeRegExp(phrase.replace(/\s+/g, ''))}\\b`, 'i').test(text)) score += 40;
+    else if (new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'i').test(text)) score += 35;
+    else {
+      const words = phrase.split(/\s+/).filter(word => word.length > 2);
+      const matched = words.filter(word => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(text));
+      score += matched.length * 12;
+    }
+  }
+  score += Math.min(30, (text.match(DISASTER_TERMS) || []).length * 10);
+  return Math.min(score, 100);
+};
+
+const extractContacts = (text) => ({
+  phones: unique((text.match(PHONE_PATTERN) || []).filter(phone => phone.replace(/\D/g, '').length >= 7)),
+  addresses: unique(text.match(ADDRESS_PATTERN) || []),
+});
+
+/**
+ * Classify a post with the offline rules: category by weighted phrase
+ * matches, urgency by the strongest phrase found.
+ * @param {string} text
+ * @param {string[]} keywords
+ */
+const classifyWithRules = (text, keywords) => {
+  const relevance = scoreRelevance(text, keywords);
+  const scores = Object.fromEntries(Object.entries(CATEGORY_RULES).map(([category, rules]) =>
+    [category, rules.reduce((sum, [pattern, weight]) => sum + (pattern.test(text) ? weight : 0), 0)]));
+  const best = CATEGORY_PRIORITY.reduce((top, category) => (scores[category] > scores[top] ? category : top), CATEGORY_PRIORITY[0]);
+
+  let category = scores[best] > 0 ? best : 'irrelevant';
+  // A single weak hint in an off-topic post is not enough
+  if (relevance < MIN_RELEVANCE && scores[best] < 3) category = 'irrelevant';
+
+  const urgency = category === 'irrelevant' || category === 'misinformation'
+    ? 'low'
+    : (URGENCY_RULES.find(([, pattern]) => pattern.test(text))?.[0] || 'low');
+
+  return { category, urgency, relevance, ...extractContacts(text) };
+};
+
+// Not every provider enforces the response schema, so lists are checked too (a missing one is empty)
+const isStringList = (value) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+const validAnswer = (answer) => answer
+  && POST_CATEGORIES.includes(answer.category)
+  && URGENCY_LEVELS.includes(answer.urgency)
+  && Number.isFinite(Number(answer.relevance))
+  && isStringList(answer.phones)
+  && isStringList(answer.addresses)
+  && isStringList(answer.places);
+
+// Classify posts with the model, in batches; returns index -> answer for the posts it answered.
+// A failed batch is left to the rules without losing the answers of the others.
+const classifyWithAI = async (posts, { keywords, locationName }) => {
+  const answers = new Map();
+  let meta = null;
+  for (let start = 0; start < posts.length; start += AI_BATCH_SIZE) {
+    const batch = posts.slice(start, start + AI_BATCH_SIZE);
+    const input = JSON.stringify({
+      keywords,
+      location: locationName || null,
+      posts: batch.map((post, i) => ({ index: start + i, text: post.post })),
+    });
+    try {
+      const { data, meta: responseMeta } = await aiService.extractStructured('social-post-classification', input);
+      meta = responseMeta;
+      for (const answer of Array.isArray(data?.posts) ? data.posts : []) {
+        const index = Number(answer?.index);
+        if (index >= start && index < start + batch.length && validAnswer(answer)) answers.set(index, answer);
+      }
+    } catch (error) {
+      logger.warn('AI post classification failed for a batch, using the rule-based scorer for it', { start, posts: batch.length, error: error.message });
+    }
+  }
+  return { answers, meta };
+};
+
+// Look places and addresses up, most urgent posts first, within the lookup budget
+const geocodeMentions = async (classified, locationName) => {
+  const queries = new Map();
+  const order = [...classified].sort((a, b) => URGENCY_LEVELS.indexOf(a.urgency) - URGENCY_LEVELS.indexOf(b.urgency));
+  for (const post of order) {
+    if (post.category === 'irrelevant' || post.category === 'misinformation') continue;
+    // A street address alone is ambiguous, so it is looked up within the disaster's area
+    for (const address of post.addresses) queries.set(`address:${address}`, locationName ? `${address}, ${locationName}` : address);
+    for (const place of post.places) queries.set(`place:${place}`, place);
+  }
+
+  const located = new Map();
+  for (const [key, query] of [...queries].slice(0, MAX_GEOCODE_LOOKUPS)) {
+    try {
+      const match = await geocodingService.geocode(query);
+      if (match) located.set(key, { latitude: match.latitude, longitude: match.longitude, label: match.label });
+    } catch (error) {
+      logger.warn('Could not geocode a place mentioned in a post', { query, error: error.message });
+    }
+  }
+  return located;
+};
+
+/**
+ * @typedef {Object} PostClassification
+ * @property {string} category - One of POST_CATEGORIES
+ * @property {string} urgency - One of URGENCY_LEVELS
+ * @property {number} relevanceScore - 0-100
+ * @property {{phones: string[], addresses: Object[], places: Object[]}} extracted
+ *   Addresses and places are {text} or {name}, with latitude/longitude/label when geocoded
+ * @property {{method: 'ai'|'rules', provider?: string, model?: string, promptVersion?: string}} classifiedBy
+ */
+
+/**
+ * Tag each post with a category and an urgency, score its relevance, and
+ * pull out the phone numbers, addresses and places it mentions (geocoded
+ * where possible). The AI provider classifies when one is configured; posts
+ * it cannot answer, or all of them when it is offline, go through the
+ * rule-based scorer instead.
+ *
+ * @param {Object[]} posts - Posts in the connector shape ({id, post, ...})
+ * @param {{keywords: string[], locationName?: string}} context - The disaster being searched
+ * @returns {Promise<Array<Object & PostClassification>>} The posts with their classification
+ */
+const classifyPosts = async (posts, { keywords, locationName } = { keywords: [] }) => {
+  if (posts.length === 0) return [];
+
+  let answers = new Map();
+  let meta = null;
+  if (aiService.isModelConfigured()) {
+    try {
+      ({ answers, meta } = await classifyWithAI(posts, { keywords, locationName }));
+    } catch (error) {
+      logger.warn('AI post classification unavailable, using the rule-based scorer', { error: error.message });
+    }
+  }
+
+  const classified = await Promise.all(posts.map(async (post, index) => {
+    const rules = classifyWithRules(post.post, keywords);
+    const answer = answers.get(index);
+    const places = answer
+      ? unique(answer.places || [])
+      : await geocodingService.findPlacesInText(post.post);
+    return {
+      index,
+      category: answer ? answer.category : rules.category,
+      urgency: answer ? answer.urgency : rules.urgency,
+      relevance: answer ? Math.max(0, Math.min(100, Math.round(Number(answer.relevance)))) : rules.relevance,
+      // The patterns catch formats a model may skip, so both are kept
+      phones: unique([...(answer?.phones || []), ...rules.phones]),
+      addresses: unique([...(answer?.addresses || []), ...rules.addresses]),
+      places,
+      classifiedBy: answer
+        ? { method: 'ai', provider: meta.provider, model: meta.model, promptVersion: meta.promptVersion }
+        : { method: 'rules' },
+    };
+  }));
+
+  const located = await geocodeMentions(classified, locationName);
+  const counts = classified.reduce((acc, { category }) => ({ ...acc, [category]: (acc[category] || 0) + 1 }), {});
+  logger.info('Classified social media posts', { posts: posts.length, byAI: answers.size, categories: counts });
+
+  return classified.map(({ index, category, urgency, relevance, phones, addresses, places, classifiedBy }) => ({
+    ...posts[index],
+    category,
+    urgency,
+    relevanceScore: relevance,
+    extracted: {
+      phones,
+      addresses: addresses.map(text => ({ text, ...located.get(`address:${text}`) })),
+      places: places.map(name => ({ name, ...located.get(`place:${name}`) })),
+    },
+    classifiedBy,
+  }));
+};
+
+export const postClassifierService = {
+  classifyPosts,
+  classifyWithRules,
+};
@@ -0,0 +1,62 @@
+// src/services/presenceService.js
+// In-memory record of which users have each disaster open over Socket.IO.
+// Presence is per process: it resets on restart and is not shared between instances.
+
+// disasterId -> userId -> { id, username, role, since, socketIds: Set }
+const presenceByDisaster = new Map();
+
+/**
+ * Record that a socket of `user` is following a disaster.
+ * @returns {boolean} true when the user was not already present
+ */
+const join = (disasterId, user, socketId) => {
+  const key = String(disasterId);
+  if (!presenceByDisaster.has(key)) presenceByDisaster.set(key, new Map());
+  const users = presenceByDisaster.get(key);
+
+  const existing = users.get(user.id);
+  if (existing) {
+    existing.socketIds.add(socketId);
+    return false;
+  }
+
+  users.set(user.id, {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    since: new Date().toISOString(),
+    socketIds: new Set([socketId]),
+  });
+  return true;
+};
+
+/**
+ * Record that a socket stopped following a disaster.
+ * @returns {boolean} true when the user has no sockets left in the disaster
+ */
+const leave = (disasterId, userId, socketId) => {
+  const key = String(disasterId);
+  const users = presenceByDisaster.get(key);
+  const entry = users?.get(userId);
+  if (!entry) return false;
+
+  entry.socketIds.delete(socketId);
+  if (entry.socketIds.size > 0) return false;
+
+  users.delete(userId);
+  if (users.size === 0) presenceByDisaster.delete(key);
+  return true;
+};
+
+/**
+ * Users currently following a disaster, one entry per user however many tabs they have open.
+ * @param {string|number} disasterId
+ * @returns {Array<{id: string, username: string, role: string, since: string, connections: number}>}
+ */
+const getPresence = (disasterId) => {
+  const users = presenceByDisaster.get(String(disasterId));
+  if (!users) return [];
+  return [...users.values()].map(({ socketIds, ...user }) => ({ ...user, connections: socketIds.size }));
+};
+
+export const presenceService = { join, leave, getPresence };
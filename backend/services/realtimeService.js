@@ -0,0 +1,76 @@
+// src/services/realtimeService.js
+import supabase from '../config/supabaseClient.js';
+import { emitToSubscribers, emitToUser } from '../config/socketServer.js';
+import { logger } from '../utils/logger.js';
+
+// Events pushed to Socket.IO subscribers
+export const EVENTS = {
+  DISASTER_UPDATED: 'disaster_updated',
+  REPORT_CREATED: 'report_created',
+  REPORT_VERIFIED: 'report_verified',
+  REPORT_REVIEWED: 'report_reviewed',
+  RESOURCE_UPDATED: 'resource_updated',
+  SOCIAL_POST_CREATED: 'social_post_created',
+  VERIFICATION_JOB_UPDATED: 'verification_job_updated',
+};
+
+/**
+ * Look up the location and tags of a disaster so events about it can be
+ * matched against area and tag subscriptions.
+ * @param {string|number} disasterId
+ * @returns {Promise<{disasterId: string|number, latitude?: number, longitude?: number, tags?: string[]}>}
+ */
+const getDisasterContext = async (disasterId) => {
+  try {
+    const { data, error } = await supabase
+      .from('disasters_with_coords')
+      .select('latitude, longitude, tags')
+      .eq('id', disasterId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { disasterId, ...(data || {}) };
+  } catch (err) {
+    logger.warn('Could not load disaster context for realtime event', { disasterId, error: err.message });
+    return { disasterId };
+  }
+};
+
+/**
+ * Push an event to the clients subscribed to it.
+ * When only a disasterId is known, the disaster's location and tags are looked
+ * up so that area and tag subscribers receive the event too.
+ *
+ * @param {string} event - One of EVENTS
+ * @param {Object} payload - Event body sent to clients
+ * @param {{disasterId?: string|number, latitude?: number, longitude?: number, tags?: string[]}} context
+ * @param {{privileged?: {permission: string, payload: Object}}} [options] - A different
+ *   payload for clients whose role grants the permission, e.g. the full record of a hidden report
+ */
+const publish = async (event, payload, context = {}, options = {}) => {
+  try {
+    const needsLookup = context.disasterId !== undefined && context.disasterId !== null
+      && (context.latitude === undefined || context.tags === undefined);
+    const resolved = needsLookup ? { ...(await getDisasterContext(context.disasterId)), ...context } : context;
+
+    emitToSubscribers(event, payload, resolved, options);
+  } catch (err) {
+    logger.error('Error publishing realtime event', { event, error: err.message });
+  }
+};
+
+/**
+ * Push an event to one user's connections only.
+ * @param {string} userId
+ * @param {string} event - One of EVENTS
+ * @param {Object} payload
+ */
+const publishToUser = (userId, event, payload) => {
+  try {
+    emitToUser(userId, event, payload);
+  } catch (err) {
+    logger.error('Error publishing realtime event to user', { event, userId, error: err.message });
+  }
+};
+
+export const realtimeService = { publish, publishToUser, getDisasterContext };
@@ -1,8 +1,8 @@
 // src/services/scrapingService.js
-import axios from 'axios';
 import { parseStringPromise } from 'xml2js';
 import { cacheService } from './cacheService.js';
 import { logger } from '../utils/logger.js';
+import { safeFetch } from '../utils/safeFetch.js';
 
 // Correct FEMA RSS Feed URLs
 const FEMA_RSS_FEEDS = {
@@ -10,6 +10,9 @@ const FEMA_RSS_FEEDS = {
   pressReleases: 'https://www.fema.gov/feeds/news.rss'
 };
 
+// RSS feeds are text; anything bigger than this is not a feed we want to parse
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
 // Disaster type keywords for filtering
 const DISASTER_KEYWORDS = {
   hurricane: ['hurricane', 'tropical storm', 'typhoon', 'cyclone'],
@@ -32,24 +35,18 @@ const fetchRSSFeed = async (feedUrl, feedType) => {
   try {
     logger.info(`Fetching ${feedType} RSS feed`, { url: feedUrl });
     
-    const response = await axios.get(feedUrl, {
+    // Non-2xx responses throw and end up in the catch below
+    const response = await safeFetch(feedUrl, {
       headers: { 
         'Accept': 'application/rss+xml, application/xml, text/xml',
         'User-Agent': 'FEMA-Scraper/1.0'
       },
-      timeout: 10000
+      timeoutMs: 10000,
+      maxBytes: MAX_FEED_BYTES
     });
 
-    if (response.status !== 200) {
-      logger.error(`Failed to fetch ${feedType} RSS`, { 
-        status: response.status, 
-        url: feedUrl 
-      });
-      return [];
-    }
-
     // Parse XML to JavaScript object
-    const parsed = await parseStringPromise(response.data, { 
+    const parsed = await parseStringPromise(response.body.toString('utf8'), { 
       explicitArray: false, 
       trim: true,
       ignoreAttrs: false
@@ -345,6 +342,7 @@ const getDisasterStats = async () => {
 };
 
 export const scrapingService = {
+  DISASTER_KEYWORDS,
   getLatestDisasters,
   getOfficialUpdates,
   getDisasterStats,
@@ -0,0 +1,85 @@
+// src/services/social/blueskyConnector.js
+import { BskyAgent } from '@atproto/api';
+import { logger } from '../../utils/logger.js';
+import { toSearchPhrase } from './queryBuilder.js';
+
+// Searches near the place, one per synonym, added to the main search
+const MAX_PLACE_SEARCHES = 2;
+
+// For a "Houston Flood" tagged flood in Houston: "Houston Flood" OR flood OR flooding,
+// then "Houston" flooding and "Houston" "flash flood" to catch posts that only name the place
+const buildQueries = (query) => {
+  const names = [...query.terms, ...query.synonyms].map(toSearchPhrase).join(' OR ');
+  const nearby = query.place
+    ? query.synonyms.slice(0, MAX_PLACE_SEARCHES).map(synonym => `${toSearchPhrase(query.place)} ${toSearchPhrase(synonym)}`)
+    : [];
+  return [names, ...nearby];
+};
+
+/**
+ * Connector for Bluesky post search. Logs in when an identifier and app
+ * password are given and searches unauthenticated otherwise.
+ * @param {{service?: string, identifier?: string, password?: string, lang?: string}} options
+ */
+export const createBlueskyConnector = ({ service = 'https://bsky.social', identifier, password, lang = 'en' } = {}) => {
+  const agent = new BskyAgent({ service });
+  let loginPromise = null;
+
+  const ensureLogin = () => {
+    if (!identifier || !password) return Promise.resolve(false);
+    loginPromise = loginPromise || agent.login({ identifier, password })
+      .then(() => {
+        logger.info('Successfully authenticated with Bluesky');
+        return true;
+      })
+      .catch(error => {
+        logger.warn('Failed to authenticate with Bluesky, using unauthenticated mode', { error: error.message });
+        return false;
+      });
+    return loginPromise;
+  };
+
+  return {
+    name: 'bluesky',
+    platform: 'bluesky',
+    // Unauthenticated search is limited per IP; one search a second keeps well inside it
+    rateLimit: { minIntervalMs: 1000, maxQueueDepth: 20, cacheTtlSeconds: 180 },
+
+    search: async (query, { limit = 25 } = {}) => {
+      await ensureLogin();
+      const searches = buildQueries(query);
+      logger.info('Bluesky search queries', { terms: query.terms, searchQueries: searches });
+
+      const responses = await Promise.all(searches.map(q => agent.app.bsky.feed.searchPosts({
+        q,
+        limit: Math.min(limit, 100), // Bluesky has limits
+        sort: 'latest',
+        ...(lang && { lang }),
+      })));
+      const failed = responses.find(response => !response.success);
+      if (failed) {
+        throw new Error(`Bluesky API returned unsuccessful response: ${failed.error || 'Unknown error'}`);
+      }
+      // The same post can match several searches; the service dedupes by URL
+      return responses.flatMap(response => response.data.posts || []).filter(post => post.record?.text);
+    },
+
+    normalize: (post) => ({
+      id: post.uri,
+      post: post.record.text,
+      user: post.author.handle || post.author.displayName || 'anonymous',
+      userDisplayName: post.author.displayName,
+      userAvatar: post.author.avatar,
+      timestamp: post.record.createdAt,
+      engagement: {
+        likes: post.likeCount || 0,
+        reposts: post.repostCount || 0,
+        replies: post.replyCount || 0,
+      },
+      platform: 'bluesky',
+      url: `https://bsky.app/profile/${post.author.handle}/post/${post.uri.split('/').pop()}`,
+    }),
+
+    getAgent: () => agent,
+  };
+};
@@ -0,0 +1,46 @@
+// src/services/social/fixtureConnector.js
+import { readFile } from 'fs/promises';
+import { matchesKeywords } from './rssConnector.js';
+
+/**
+ * Offline connector for tests and demos. Posts come from a local JSON file of
+ * [{ "id": "...", "post": "...", "user": "...", "minutesAgo": 5, ... }] and are
+ * returned when they mention a keyword. Timestamps are relative, so the
+ * fixtures always look recent.
+ * @param {{path: string}} options
+ */
+export const createFixtureConnector = ({ path }) => {
+  let postsPromise = null;
+
+  const loadPosts = () => {
+    // Retry on the next search if the file could not be read
+    postsPromise = postsPromise || readFile(path, 'utf8').then(JSON.parse).catch(err => {
+      postsPromise = null;
+      throw err;
+    });
+    return postsPromise;
+  };
+
+  return {
+    name: 'fixture',
+    platform: 'fixture',
+    rateLimit: { minIntervalMs: 0, maxQueueDepth: 100, cacheTtlSeconds: 0 },
+
+    search: async (query, { limit = 25 } = {}) => {
+      const posts = await loadPosts();
+      return posts.filter(post => matchesKeywords(post.post, [...query.terms, ...query.synonyms])).slice(0, limit);
+    },
+
+    normalize: (post) => ({
+      id: post.id,
+      post: post.post,
+      user: post.user,
+      userDisplayName: post.userDisplayName || post.user,
+      userAvatar: post.userAvatar,
+      timestamp: post.timestamp || new Date(Date.now() - (post.minutesAgo || 0) * 60000).toISOString(),
+      engagement: { likes: 0, reposts: 0, replies: 0, ...post.engagement },
+      platform: post.platform || 'fixture',
+      url: post.url || `https://example.org/fixtures/${encodeURIComponent(post.id)}`,
+    }),
+  };
+};
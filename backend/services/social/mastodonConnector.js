@@ -0,0 +1,88 @@
+// src/services/social/mastodonConnector.js
+import axios from 'axios';
+import { toHashtag } from './queryBuilder.js';
+
+// Hashtag timelines read per search
+const MAX_HASHTAGS = 4;
+
+// Mastodon hashtags are single words: "California Wildfire" in Los Angeles ->
+// #californiawildfire, #wildfire, #losangeleswildfire, ...
+const toHashtags = (query) => {
+  const placeTags = query.place ? query.synonyms.slice(0, 1).map(synonym => `${query.place}${synonym}`) : [];
+  const tags = [...query.terms, ...placeTags, ...query.synonyms]
+    .map(toHashtag)
+    .filter(tag => tag.length > 2);
+  return [...new Set(tags)].slice(0, MAX_HASHTAGS);
+};
+
+// Status content is HTML
+const stripHtml = (html) => String(html || '')
+  .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+  .replace(/<[^>]*>/g, '')
+  .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+  .trim();
+
+/**
+ * Connector for one Mastodon instance. Hashtag timelines are public, so no
+ * account is needed; with an access token, full-text status search is used
+ * as well.
+ * @param {{url: string, accessToken?: string, timeout?: number}} options
+ */
+export const createMastodonConnector = ({ url, accessToken, timeout = 10000 }) => {
+  const base = url.replace(/\/$/, '');
+  const host = new URL(base).host;
+  const headers = accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+
+  const tagTimeline = async (tag, limit) => {
+    const { data } = await axios.get(`${base}/api/v1/timelines/tag/${encodeURIComponent(tag)}`, {
+      params: { limit: Math.min(limit, 40) },
+      headers,
+      timeout,
+    });
+    return data;
+  };
+
+  const statusSearch = async (query, limit) => {
+    const { data } = await axios.get(`${base}/api/v2/search`, {
+      params: { q: [query.terms[0], query.place].filter(Boolean).join(' '), type: 'statuses', limit: Math.min(limit, 40), resolve: false },
+      headers,
+      timeout,
+    });
+    return data?.statuses || [];
+  };
+
+  return {
+    name: `mastodon:${host}`,
+    platform: 'mastodon',
+    // mastodon.social allows 300 requests per 5 minutes per IP; each search makes several
+    rateLimit: { minIntervalMs: 1000, maxQueueDepth: 20, cacheTtlSeconds: 180 },
+
+    search: async (query, { limit = 25 } = {}) => {
+      const lookups = toHashtags(query).map(tag => tagTimeline(tag, limit));
+      if (accessToken) lookups.push(statusSearch(query, limit));
+      const results = await Promise.allSettled(lookups);
+      const failed = results.filter(result => result.status === 'rejected');
+      if (failed.length === results.length) throw failed[0].reason;
+      // Boosts carry the original status in `reblog`
+      return results
+        .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+        .map(status => status.reblog || status);
+    },
+
+    normalize: (status) => ({
+      id: status.uri,
+      post: stripHtml(status.content) || status.spoiler_text || '',
+      user: status.account?.acct?.includes('@') ? status.account.acct : `${status.account?.acct}@${host}`,
+      userDisplayName: status.account?.display_name || status.account?.username,
+      userAvatar: status.account?.avatar,
+      timestamp: status.created_at,
+      engagement: {
+        likes: status.favourites_count || 0,
+        reposts: status.reblogs_count || 0,
+        replies: status.replies_count || 0,
+      },
+      platform: 'mastodon',
+      url: status.url || status.uri,
+    }),
+  };
+};
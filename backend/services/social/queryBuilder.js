@@ -0,0 +1,109 @@
+// src/services/social/queryBuilder.js
+import { scrapingService } from '../scrapingService.js';
+
+// Coordinators can save at most this many terms per disaster
+export const MAX_SEARCH_TERMS = 20;
+const MAX_SYNONYMS = 6;
+// Tags that describe handling rather than the event; searching for them finds every disaster
+const GENERIC_TAGS = new Set(['urgent', 'critical', 'emergency', 'disaster', 'help', 'update', 'breaking', 'alert']);
+
+const unique = (values) => {
+  const seen = new Set();
+  return values.map(value => String(value || '').trim()).filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const mentions = (text, phrase) => new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+
+/**
+ * Other words people use for the disaster's type, from the scraping
+ * service's keyword map: a title or tag naming any keyword of a type brings
+ * in the rest of that type's keywords.
+ * @param {string[]} terms
+ */
+const findSynonyms = (terms) => {
+  const text = terms.join(' ');
+  const synonyms = Object.entries(scrapingService.DISASTER_KEYWORDS)
+    .filter(([type, keywords]) => mentions(text, type.replace(/_/g, ' ')) || keywords.some(keyword => mentions(text, keyword)))
+    .flatMap(([, keywords]) => keywords);
+  const known = new Set(terms.map(term => term.toLowerCase()));
+  return unique(synonyms).filter(synonym => !known.has(synonym.toLowerCase())).slice(0, MAX_SYNONYMS);
+};
+
+/**
+ * @typedef {Object} SocialQuery
+ * @property {string[]} terms - What the disaster is called: its title and descriptive tags, or the saved terms
+ * @property {string[]} synonyms - Other words for the disaster type, e.g. 'wildfire' for a fire
+ * @property {string|null} place - Short place name to narrow the search, e.g. 'Houston'
+ * @property {string|null} locationName - The disaster's full location, for geocoding addresses in posts
+ * @property {string[]} keywords - Terms and place, used to score relevance
+ * @property {'saved'|'automatic'} termSource - Whether the terms were saved by a coordinator
+ */
+
+/**
+ * Build the social media search for a disaster. Each connector turns it
+ * into its own query syntax (search operators, hashtags or text matching).
+ *
+ * @param {{title: string, tags?: string[], location_name?: string|null, social_search_terms?: string[]|null}} disaster
+ * @returns {SocialQuery}
+ */
+export const buildSocialQuery = (disaster) => {
+  const saved = unique(disaster.social_search_terms || []);
+  const tags = (disaster.tags || []).filter(tag => !GENERIC_TAGS.has(String(tag).toLowerCase()));
+  const terms = saved.length > 0 ? saved : unique([disaster.title, ...tags]);
+  // "Midtown, Houston, TX" -> "Midtown"
+  const place = disaster.location_name ? disaster.location_name.split(',')[0].trim() || null : null;
+
+  return {
+    terms,
+    synonyms: findSynonyms(terms),
+    place,
+    locationName: disaster.location_name || null,
+    keywords: unique([...terms, place]),
+    termSource: saved.length > 0 ? 'saved' : 'automatic',
+  };
+};
+
+/**
+ * Validate search terms sent by a coordinator. An empty list or null goes
+ * back to the automatic terms.
+ * @param {unknown} terms
+ * @returns {string[]|null}
+ * @throws {Error} with statusCode 400 when malformed
+ */
+export const parseSearchTerms = (terms) => {
+  if (terms === null || terms === undefined) return null;
+  const invalid = (message) => Object.assign(new Error(message), { statusCode: 400 });
+  if (!Array.isArray(terms) || terms.some(term => typeof term !== 'string')) throw invalid('terms must be an array of strings.');
+  const cleaned = unique(terms);
+  if (cleaned.length > MAX_SEARCH_TERMS) throw invalid(`At most ${MAX_SEARCH_TERMS} search terms can be saved.`);
+  const bad = cleaned.find(term => term.length < 2 || term.length > 100);
+  if (bad !== undefined) throw invalid(`Search term '${bad}' must be 2 to 100 characters long.`);
+  return cleaned.length > 0 ? cleaned : null;
+};
+
+/**
+ * A single-word hashtag for a term: "California Wildfire" -> "californiawildfire".
+ * @param {string} term
+ */
+export const toHashtag = (term) => term.toLowerCase().replace(/[^\p{L}\p{N}_]/gu, '');
+
+/**
+ * A term for a search engine query: multi-word terms are quoted as phrases.
+ * @param {string} term
+ */
+export const toSearchPhrase = (term) => (/\s/.test(term) ? `"${term.replace(/"/g, '')}"` : term);
+
+/**
+ * The search the monitor runs without a disaster, to notice incidents nobody
+ * has filed yet: the most common name of each disaster type.
+ * @returns {SocialQuery}
+ */
+export const buildDiscoveryQuery = () => {
+  const terms = unique(Object.values(scrapingService.DISASTER_KEYWORDS).map(keywords => keywords[0]));
+  return { terms, synonyms: [], place: null, locationName: null, keywords: terms, termSource: 'automatic' };
+};
@@ -0,0 +1,83 @@
+// src/services/social/rssConnector.js
+import { parseStringPromise } from 'xml2js';
+import { safeFetch } from '../../utils/safeFetch.js';
+
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Whether a text mentions any of the keywords, as a phrase or as all of its words.
+ * @param {string} text
+ * @param {string[]} keywords
+ */
+export const matchesKeywords = (text, keywords) => {
+  const lower = String(text || '').toLowerCase();
+  return keywords.some(keyword => {
+    const phrase = keyword.toLowerCase();
+    return lower.includes(phrase) || phrase.split(/\s+/).every(word => lower.includes(word));
+  });
+};
+
+// xml2js gives text nodes with attributes as { _: text, $: attrs }
+const textOf = (value) => (typeof value === 'object' && value !== null ? value._ ?? '' : value ?? '');
+
+const stripHtml = (html) => String(textOf(html)).replace(/<[^>]*>?/gm, '').replace(/\s+/g, ' ').trim();
+
+// Atom links are elements with an href, possibly several (alternate, self, ...)
+const linkOf = (link) => {
+  const links = Array.isArray(link) ? link : [link];
+  const alternate = links.find(l => typeof l === 'object' && l?.$?.href && (!l.$.rel || l.$.rel === 'alternate'));
+  return alternate?.$.href || links.find(l => typeof l === 'string') || null;
+};
+
+/**
+ * Connector for a generic RSS 2.0 or Atom feed, e.g. a local newsroom or a
+ * public agency. Feeds cannot be searched, so the whole feed is read and
+ * items mentioning a keyword are kept.
+ * @param {{url: string, timeout?: number}} options
+ */
+export const createRssConnector = ({ url, timeout = 10000 }) => {
+  const host = new URL(url).host;
+
+  return {
+    name: `rss:${host}`,
+    platform: 'rss',
+    // Feeds change slowly and are read whole, so they are fetched rarely
+    rateLimit: { minIntervalMs: 5000, maxQueueDepth: 10, cacheTtlSeconds: 600 },
+
+    search: async (query, { limit = 25 } = {}) => {
+      const keywords = [...query.terms, ...query.synonyms];
+      const response = await safeFetch(url, {
+        headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+        timeoutMs: timeout,
+        maxBytes: MAX_FEED_BYTES,
+      });
+      const parsed = await parseStringPromise(response.body.toString('utf8'), { explicitArray: false, trim: true });
+      const channel = parsed?.rss?.channel || parsed?.feed;
+      if (!channel) throw new Error(`${url} is not an RSS or Atom feed.`);
+
+      const items = channel.item || channel.entry || [];
+      const feedTitle = stripHtml(channel.title) || host;
+      return (Array.isArray(items) ? items : [items])
+        .filter(item => matchesKeywords(`${textOf(item.title)} ${textOf(item.description || item.summary || item.content)}`, keywords))
+        .slice(0, limit)
+        .map(item => ({ ...item, feedTitle }));
+    },
+
+    normalize: (item) => {
+      const link = linkOf(item.link);
+      const title = stripHtml(item.title);
+      const summary = stripHtml(item.description || item.summary || item.content);
+      const author = stripHtml(item.author?.name || item.author || item['dc:creator']);
+      return {
+        id: stripHtml(item.guid || item.id) || link || title,
+        post: [title, summary].filter(Boolean).join(' — '),
+        user: author || host,
+        userDisplayName: item.feedTitle,
+        timestamp: new Date(textOf(item.pubDate || item.published || item.updated) || Date.now()).toISOString(),
+        engagement: { likes: 0, reposts: 0, replies: 0 },
+        platform: 'rss',
+        url: link || url,
+      };
+    },
+  };
+};
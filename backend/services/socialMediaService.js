@@ -1,242 +1,114 @@
 // src/services/socialMediaService.js
-import { BskyAgent } from '@atproto/api';
+import { fileURLToPath } from 'url';
 import { cacheService } from './cacheService.js';
 import { logger } from '../utils/logger.js';
+import { createRateLimiter } from '../utils/rateLimiter.js';
+import { createBlueskyConnector } from './social/blueskyConnector.js';
+import { createMastodonConnector } from './social/mastodonConnector.js';
+import { createRssConnector } from './social/rssConnector.js';
+import { createFixtureConnector } from './social/fixtureConnector.js';
+import { postClassifierService } from './postClassifierService.js';
 
-// Initialize Bluesky agent
-const agent = new BskyAgent({
-  service: 'https://bsky.social'
-});
+const list = (value) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
 
-// Bluesky configuration
-const BLUESKY_CONFIG = {
+const SOCIAL_CONFIG = {
+  // Every listed connector is searched; unknown or unconfigured ones are skipped
+  connectors: list(process.env.SOCIAL_CONNECTORS || 'bluesky,mastodon'),
   maxResults: 50,
-  defaultLang: 'en',
+  timeout: parseInt(process.env.SOCIAL_TIMEOUT_MS || '10000', 10),
   // Optional authentication - set these environment variables if you have credentials
-  identifier: process.env.BLUESKY_IDENTIFIER, // e.g., 'your-handle.bsky.social'
-  password: process.env.BLUESKY_PASSWORD // App password, not main password
-};
-
-// Initialize authentication if credentials are provided
-const initializeAuth = async () => {
-  if (BLUESKY_CONFIG.identifier && BLUESKY_CONFIG.password) {
-    try {
-      await agent.login({
-        identifier: BLUESKY_CONFIG.identifier,
-        password: BLUESKY_CONFIG.password
-      });
-      logger.info('Successfully authenticated with Bluesky');
-      return true;
-    } catch (error) {
-      logger.warn('Failed to authenticate with Bluesky, using unauthenticated mode', {
-        error: error.message
-      });
-      return false;
-    }
-  }
-  return false;
+  blueskyIdentifier: process.env.BLUESKY_IDENTIFIER, // e.g., 'your-handle.bsky.social'
+  blueskyPassword: process.env.BLUESKY_PASSWORD, // App password, not main password
+  mastodonInstances: list(process.env.MASTODON_INSTANCES || 'https://mastodon.social'),
+  mastodonAccessToken: process.env.MASTODON_ACCESS_TOKEN,
+  rssFeeds: list(process.env.SOCIAL_RSS_FEEDS),
+  fixturePath: process.env.SOCIAL_FIXTURE_PATH || fileURLToPath(new URL('../config/socialFixtures.json', import.meta.url)),
+  // Sample posts when nothing is found; off in production so an outage is not papered over
+  mockFallback: process.env.SOCIAL_MOCK_FALLBACK
+    ? process.env.SOCIAL_MOCK_FALLBACK === 'true'
+    : process.env.NODE_ENV !== 'production',
 };
 
-// Initialize auth on module load
-let isAuthenticated = false;
-initializeAuth().then(result => {
-  isAuthenticated = result;
-}).catch(error => {
-  logger.warn('Auth initialization failed', { error: error.message });
-});
-
 /**
- * Search Bluesky posts for disaster-related content
- * @param {string[]} disasterKeywords - Array of keywords to search for
- * @param {Object} options - Search options
- * @returns {Promise<Array>} Array of formatted posts
+ * @typedef {Object} SocialPost
+ * @property {string} id
+ * @property {string} post - The text
+ * @property {string} user
+ * @property {string} [userDisplayName]
+ * @property {string} [userAvatar]
+ * @property {string} timestamp - ISO date
+ * @property {{likes: number, reposts: number, replies: number}} engagement
+ * @property {string} platform
+ * @property {string} url
+ * @property {number} [relevanceScore] - 0-100, added by postClassifierService
+ * @property {string} [category] - One of POST_CATEGORIES, added by postClassifierService
+ * @property {string} [urgency] - One of URGENCY_LEVELS, added by postClassifierService
+ * @property {'live'|'cached'|'mock'} [source] - Fetched for this request, served from the cache, or sample data
  */
-const getBlueskyReports = async (disasterKeywords, options = {}) => {
-  const {
-    maxResults = 25,
-    sortBy = 'latest', // 'latest' or 'top'
-    lang = BLUESKY_CONFIG.defaultLang
-  } = options;
-
-  // Create cache key from keywords and options
-  const cacheKey = `bluesky:${disasterKeywords.join('-')}:${sortBy}:${lang}`;
-  
-  const cachedData = await cacheService.get(cacheKey);
-  if (cachedData) {
-    logger.info('Returning cached Bluesky data', { keywords: disasterKeywords });
-    return cachedData;
-  }
-
-  logger.info('Fetching fresh Bluesky social media data', { 
-    keywords: disasterKeywords,
-    maxResults,
-    sortBy 
-  });
 
-  try {
-    // Build flexible search query - try multiple approaches
-    let fullQuery;
-    
-    // For "California Wildfire" -> search for "California wildfire" OR "#California" OR "#wildfire" 
-    if (disasterKeywords.length > 1) {
-      // Multi-word search: try the full phrase and individual hashtags
-      const fullPhrase = disasterKeywords.join(' ');
-      const hashtagQuery = disasterKeywords.map(keyword => `#${keyword}`).join(' OR ');
-      fullQuery = `"${fullPhrase}" OR ${hashtagQuery} OR ${fullPhrase}`;
-    } else {
-      // Single keyword: try both hashtag and text
-      const keyword = disasterKeywords[0];
-      fullQuery = `#${keyword} OR ${keyword}`;
-    }
-    
-    logger.info('Bluesky search query', { 
-      originalKeywords: disasterKeywords,
-      searchQuery: fullQuery 
-    });
+/**
+ * @typedef {Object} SocialConnector
+ * @property {string} name - Unique, e.g. 'bluesky' or 'mastodon:mastodon.social'
+ * @property {string} platform
+ * @property {{minIntervalMs: number, maxQueueDepth: number, cacheTtlSeconds: number}} rateLimit
+ *   How far apart searches must start, how many may wait, and how long results are cached
+ * @property {(query: import('./social/queryBuilder.js').SocialQuery, options: {limit: number}) => Promise<Object[]>} search
+ *   Raw items; each connector turns the query into its own syntax
+ * @property {(item: Object) => SocialPost} normalize
+ */
 
-    // Use BskyAgent to search posts with more flexible parameters
-    const response = await agent.app.bsky.feed.searchPosts({
-      q: fullQuery,
-      limit: Math.min(maxResults, 100), // Bluesky has limits
-      sort: sortBy,
-      ...(lang && { lang }) // Only include lang if specified
-    });
+// Builders for each connector type; null means it is not configured.
+// A type can give several connectors, e.g. one per Mastodon instance.
+const CONNECTOR_FACTORIES = {
+  bluesky: (config) => createBlueskyConnector({ identifier: config.blueskyIdentifier, password: config.blueskyPassword }),
+  mastodon: (config) => config.mastodonInstances.map(url =>
+    createMastodonConnector({ url, accessToken: config.mastodonAccessToken, timeout: config.timeout })),
+  rss: (config) => config.rssFeeds.map(url => createRssConnector({ url, timeout: config.timeout })),
+  fixture: (config) => createFixtureConnector({ path: config.fixturePath }),
+};
 
-    if (!response.success) {
-      throw new Error(`Bluesky API returned unsuccessful response: ${response.error || 'Unknown error'}`);
-    }
+const connectors = SOCIAL_CONFIG.connectors.flatMap(type => {
+  const factory = CONNECTOR_FACTORIES[type];
+  const built = factory ? [].concat(factory(SOCIAL_CONFIG) || []) : [];
+  if (built.length === 0) {
+    logger.warn('Skipping social media connector that is unknown or not configured', { connector: type });
+  }
+  return built;
+});
+logger.info('Social media connectors configured', { connectors: connectors.map(connector => connector.name) });
 
-    // Format the posts for our application
-    const formattedPosts = formatBlueskyPosts(response.data.posts || [], disasterKeywords);
-    
-    // If no posts found, use mock data instead
-    if (formattedPosts.length === 0) {
-      logger.info('No Bluesky posts found, using mock data instead', { 
-        keywords: disasterKeywords,
-        query: fullQuery 
-      });
-      
-      const mockData = getFallbackMockData(disasterKeywords);
-      await cacheService.set(cacheKey, mockData, 60); // Cache mock data for 1 minute
-      return mockData;
-    }
-    
-    // Cache the real result for 3 minutes to balance freshness with API limits
-    await cacheService.set(cacheKey, formattedPosts, 180);
-    
-    logger.info('Successfully fetched Bluesky posts', { 
-      count: formattedPosts.length,
-      keywords: disasterKeywords 
-    });
-    
-    return formattedPosts;
+const limiters = new Map(connectors.map(connector => [connector.name, createRateLimiter({
+  name: connector.name,
+  minIntervalMs: connector.rateLimit.minIntervalMs,
+  maxQueueDepth: connector.rateLimit.maxQueueDepth,
+})]));
 
-  } catch (error) {
-    logger.error('Bluesky API failed, falling back to mock data', { 
-      error: error.message,
-      keywords: disasterKeywords,
-      query: `(${disasterKeywords.join(' OR ')}) AND emergency terms`
-    });
-    
-    // Return fallback mock data if API fails
-    const mockData = getFallbackMockData(disasterKeywords);
-    
-    // Cache mock data for shorter time (1 minute) so we retry API sooner
-    await cacheService.set(cacheKey, mockData, 60);
-    
-    return mockData;
+// Search one connector and classify what it finds, from the cache when a recent answer exists
+const searchConnector = async (connector, query, limit) => {
+  const queryKey = [...query.terms, '|', query.place, '|', query.locationName].join('-').toLowerCase();
+  const cacheKey = `social:${connector.name}:${queryKey}:${limit}`;
+  const { cacheTtlSeconds } = connector.rateLimit;
+  if (cacheTtlSeconds > 0) {
+    const cached = await cacheService.get(cacheKey);
+    if (cached) return { posts: cached.map(post => ({ ...post, source: 'cached' })), cached: true };
   }
-};
 
-/**
- * Format Bluesky posts into our standard format
- * @param {Array} posts - Raw posts from Bluesky API
- * @param {string[]} keywords - Original search keywords for relevance scoring
- * @returns {Array} Formatted posts
- */
-const formatBlueskyPosts = (posts, keywords) => {
-  return posts
-    .filter(post => post.record && post.record.text)
-    .map(post => {
-      const record = post.record;
-      const author = post.author;
-      
-      return {
-        id: post.uri,
-        post: record.text,
-        user: author.handle || author.displayName || 'anonymous',
-        userDisplayName: author.displayName,
-        userAvatar: author.avatar,
-        timestamp: record.createdAt,
-        engagement: {
-          likes: post.likeCount || 0,
-          reposts: post.repostCount || 0,
-          replies: post.replyCount || 0
-        },
-        relevanceScore: calculateRelevanceScore(record.text, keywords),
-        platform: 'bluesky',
-        url: `https://bsky.app/profile/${author.handle}/post/${post.uri.split('/').pop()}`
-      };
-    })
-    .sort((a, b) => b.relevanceScore - a.relevanceScore) // Sort by relevance
-    .slice(0, 25); // Limit results
+  const items = await limiters.get(connector.name).schedule(() => connector.search(query, { limit }));
+  // Several searches of one connector can return the same post
+  const normalized = [...new Map(items.map(item => connector.normalize(item)).filter(post => post.post).map(post => [post.id, post])).values()];
+  const posts = (await postClassifierService.classifyPosts(normalized, { keywords: query.keywords, locationName: query.locationName }))
+    .map(post => ({ ...post, source: 'live' }));
+  if (cacheTtlSeconds > 0) await cacheService.set(cacheKey, posts, cacheTtlSeconds);
+  return { posts, cached: false };
 };
 
 /**
- * Calculate relevance score based on keyword matches and emergency indicators
- * @param {string} text - Post text
- * @param {string[]} keywords - Search keywords
- * @returns {number} Relevance score (0-100)
- */
-const calculateRelevanceScore = (text, keywords) => {
-  const lowerText = text.toLowerCase();
-  let score = 0;
-  
-  // Keyword matches (higher weight)
-  keywords.forEach(keyword => {
-    const keywordLower = keyword.toLowerCase();
-    if (lowerText.includes(keywordLower)) {
-      score += 20;
-    }
-    if (lowerText.includes(`#${keywordLower}`)) {
-      score += 10; // Bonus for hashtags
-    }
-  });
-  
-  // Emergency indicators
-  const emergencyTerms = ['urgent', 'emergency', 'help', 'sos', 'evacuation', 'shelter', 'relief', 'rescue'];
-  emergencyTerms.forEach(term => {
-    if (lowerText.includes(term)) {
-      score += 15;
-    }
-  });
-  
-  // Location indicators
-  const locationTerms = ['at', 'near', 'location', 'address', 'street', 'building'];
-  locationTerms.forEach(term => {
-    if (lowerText.includes(term)) {
-      score += 10;
-    }
-  });
-  
-  // Contact/resource indicators
-  const resourceTerms = ['available', 'offering', 'need', 'looking for', 'contact'];
-  resourceTerms.forEach(term => {
-    if (lowerText.includes(term)) {
-      score += 8;
-    }
-  });
-  
-  return Math.min(score, 100); // Cap at 100
-};
-
-/**
- * Fallback mock data when Bluesky API is unavailable
+ * Fallback mock data when no connector returns anything
  * @param {string[]} disasterKeywords - Original search keywords
  * @returns {Array} Mock data array with varied, realistic content
  */
 const getFallbackMockData = (disasterKeywords) => {
-  logger.warn('Using fallback mock data due to Bluesky API failure', { 
+  logger.warn('Using fallback mock data because no connector found posts', { 
     keywords: disasterKeywords 
   });
   
@@ -325,43 +197,125 @@ const getFallbackMockData = (disasterKeywords) => {
   return shuffledPosts.slice(0, numberOfPosts);
 };
 
+// Older posts matter less: the recency score halves every RECENCY_HALF_LIFE_HOURS
+const RECENCY_HALF_LIFE_HOURS = 6;
+// Posts whose normalized text is at least this long are compared as cross-posts
+const MIN_DUPLICATE_TEXT_LENGTH = 30;
+
+const engagementScore = ({ likes = 0, reposts = 0, replies = 0 } = {}) =>
+  Math.min(100, 20 * Math.log10(1 + likes + 2 * reposts + replies));
+
+const recencyScore = (timestamp) => {
+  const ageHours = Math.max(0, (Date.now() - new Date(timestamp).getTime()) / 3600000);
+  return Number.isFinite(ageHours) ? 100 * 0.5 ** (ageHours / RECENCY_HALF_LIFE_HOURS) : 0;
+};
+
+// Urgent posts are pushed up; 'low' adds nothing
+const URGENCY_SCORES = { critical: 100, high: 70, medium: 35, low: 0 };
+
+// Relevance counts most, then how fresh and how urgent a post is, then how much it was shared
+const rankScore = (post) => {
+  const score = 0.45 * (post.relevanceScore || 0) + 0.25 * recencyScore(post.timestamp)
+    + 0.2 * (URGENCY_SCORES[post.urgency] || 0) + 0.1 * engagementScore(post.engagement);
+  // Off-topic posts and likely rumors sink below everything else
+  return post.category === 'irrelevant' || post.category === 'misinformation' ? score / 2 : score;
+};
+
+// The same announcement is often posted on several networks with different links and hashtags
+const duplicateTextKey = (text) => {
+  const key = String(text)
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/[#@]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200);
+  return key.length >= MIN_DUPLICATE_TEXT_LENGTH ? key : null;
+};
+
 /**
- * Get trending disaster-related hashtags from Bluesky
- * @returns {Promise<Array>} Array of trending hashtags
+ * Merge posts from several connectors: drop repeats (same URL or the same
+ * text cross-posted), keep the best-ranked copy and list where else it
+ * appeared, then order by rank.
+ * @param {SocialPost[]} posts
+ * @returns {SocialPost[]}
  */
-const getTrendingDisasterHashtags = async () => {
-  const cacheKey = 'bluesky:trending:disaster';
-  const cachedData = await cacheService.get(cacheKey);
-  
-  if (cachedData) return cachedData;
-  
-  try {
-    // In a real implementation, this would call Bluesky's trending API
-    // For now, we'll simulate API failure and use fallback data
-    throw new Error('Trending API not implemented yet');
-    
-  } catch (error) {
-    logger.warn('Trending hashtags API failed, using fallback data', { 
-      error: error.message 
-    });
-    
-    // Fallback to common disaster-related hashtags
-    const commonHashtags = [
-      '#emergency', '#disaster', '#earthquake', '#flood', '#fire',
-      '#evacuation', '#shelter', '#relief', '#help', '#urgent',
-      '#safety', '#rescue', '#firstaid', '#volunteer', '#community'
-    ];
-    
-    // Cache fallback data for shorter time (30 minutes)
-    await cacheService.set(cacheKey, commonHashtags, 1800);
-    return commonHashtags;
+const mergePosts = (posts) => {
+  const ranked = posts
+    .map(post => ({ ...post, rankScore: Math.round(rankScore(post) * 10) / 10 }))
+    .sort((a, b) => b.rankScore - a.rankScore);
+
+  const kept = [];
+  const byKey = new Map();
+  for (const post of ranked) {
+    const keys = [post.url && post.url !== '#' ? `url:${post.url}` : `id:${post.id}`, duplicateTextKey(post.post)].filter(Boolean);
+    const original = keys.map(key => byKey.get(key)).find(Boolean);
+    if (original) {
+      if (post.platform !== original.platform && !original.alsoSeenOn.includes(post.platform)) {
+        original.alsoSeenOn.push(post.platform);
+      }
+      continue;
+    }
+    const entry = { ...post, alsoSeenOn: [] };
+    kept.push(entry);
+    keys.forEach(key => byKey.set(key, entry));
   }
+  return kept;
+};
+
+// Where the posts of a response came from, as a whole
+const overallSource = (posts) => {
+  const sources = new Set(posts.map(post => post.source));
+  if (sources.size === 0) return 'none';
+  return sources.size === 1 ? [...sources][0] : 'mixed';
+};
+
+/**
+ * Search every enabled connector, then merge, dedupe and rank the results.
+ * A failing connector does not fail the search; it is reported in
+ * `failedConnectors`. Every post says whether it was fetched now ('live'),
+ * served from the cache ('cached') or is sample data ('mock'); sample posts
+ * are only given when nothing was found and SOCIAL_MOCK_FALLBACK allows it.
+ *
+ * @param {import('./social/queryBuilder.js').SocialQuery} query - From buildSocialQuery()
+ * @param {{limit?: number}} [options]
+ * @returns {Promise<{posts: SocialPost[], source: 'live'|'cached'|'mock'|'mixed'|'none', query: Object, connectors: Object[], failedConnectors: string[], isMockData: boolean}>}
+ */
+const searchAll = async (query, { limit = 25 } = {}) => {
+  const perConnector = Math.min(limit, SOCIAL_CONFIG.maxResults);
+  const results = await Promise.allSettled(connectors.map(connector => searchConnector(connector, query, perConnector)));
+
+  const statuses = connectors.map((connector, i) => {
+    const result = results[i];
+    const { queueDepth, rejected } = limiters.get(connector.name).getStats();
+    const base = { name: connector.name, platform: connector.platform, rateLimit: { ...connector.rateLimit, queueDepth, rejected } };
+    if (result.status === 'rejected') {
+      logger.warn('Social media connector failed', { connector: connector.name, terms: query.terms, error: result.reason?.message });
+      return { ...base, status: 'failed', count: 0, error: result.reason?.message || 'Unknown error' };
+    }
+    return { ...base, status: 'ok', count: result.value.posts.length, cached: result.value.cached };
+  });
+
+  const posts = mergePosts(results.flatMap(result => (result.status === 'fulfilled' ? result.value.posts : []))).slice(0, limit);
+  const failedConnectors = statuses.filter(status => status.status === 'failed').map(status => status.name);
+  const { terms, synonyms, place, termSource } = query;
+  const response = { query: { terms, synonyms, place, termSource }, connectors: statuses, failedConnectors };
+  logger.info('Social media search finished', { terms, posts: posts.length, failedConnectors });
+
+  if (posts.length === 0 && SOCIAL_CONFIG.mockFallback) {
+    logger.info('No social media posts found, using mock data instead', { terms });
+    const mockPosts = (await postClassifierService.classifyPosts(getFallbackMockData(query.keywords), query))
+      .map(post => ({ ...post, source: 'mock' }));
+    return { posts: mockPosts, source: 'mock', ...response, isMockData: true };
+  }
+  return { posts, source: overallSource(posts), ...response, isMockData: false };
 };
 
 export const socialMediaService = {
-  getReports: getBlueskyReports,
-  getTrendingHashtags: getTrendingDisasterHashtags,
-  
+  search: searchAll,
+  getConnectors: () => connectors.map(({ name, platform, rateLimit }) => ({ name, platform, rateLimit })),
+
   // Agent access for advanced usage
-  getAgent: () => agent
-};
\ No newline at end of file
+  getAgent: () => connectors.find(connector => connector.getAgent)?.getAgent() ?? null
+};
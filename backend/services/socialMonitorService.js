@@ -0,0 +1,314 @@
+// src/services/socialMonitorService.js
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+import { realtimeService, EVENTS } from './realtimeService.js';
+import { socialMediaService } from './socialMediaService.js';
+import { buildSocialQuery, buildDiscoveryQuery } from './social/queryBuilder.js';
+import { POST_CATEGORIES, URGENCY_LEVELS } from './postClassifierService.js';
+
+// create table public.social_posts (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   disaster_id bigint not null,
+//   uri text not null,
+//   platform text not null,
+//   author text null,
+//   author_display_name text null,
+//   author_avatar text null,
+//   content text not null,
+//   url text null,
+//   posted_at timestamp with time zone not null,
+//   engagement jsonb not null default '{}'::jsonb,
+//   relevance_score smallint null,
+//   category text null,
+//   urgency text null,
+//   extracted jsonb not null default '{}'::jsonb,
+//   classified_by jsonb null,
+//   search tsvector generated always as (to_tsvector('english', coalesce(content, '') || ' ' || coalesce(author, ''))) stored,
+//   constraint social_posts_pkey primary key (id),
+//   constraint social_posts_disaster_uri_key unique (disaster_id, uri),
+//   constraint social_posts_disaster_id_fkey foreign key (disaster_id) references disasters (id) on delete cascade
+// );
+// create index social_posts_disaster_posted_idx on public.social_posts (disaster_id, posted_at desc, id desc);
+// create index social_posts_search_idx on public.social_posts using gin (search);
+// create index social_posts_disaster_category_idx on public.social_posts (disaster_id, category);
+//
+// Posts found by the discovery search belong to no disaster yet:
+// alter table public.social_posts alter column disaster_id drop not null;
+// alter table public.social_posts drop constraint social_posts_disaster_uri_key,
+//   add constraint social_posts_disaster_uri_key unique nulls not distinct (disaster_id, uri);
+// create index social_posts_posted_idx on public.social_posts (posted_at desc);
+
+const MONITOR_CONFIG = {
+  enabled: process.env.SOCIAL_MONITOR_ENABLED !== 'false',
+  intervalMs: parseInt(process.env.SOCIAL_MONITOR_INTERVAL_MS || String(5 * 60 * 1000), 10),
+  postsPerDisaster: parseInt(process.env.SOCIAL_MONITOR_POSTS_PER_DISASTER || '50', 10),
+  // Also search for disasters in general, so trend detection sees incidents without a record
+  discovery: process.env.SOCIAL_DISCOVERY_ENABLED !== 'false',
+  discoveryPosts: parseInt(process.env.SOCIAL_DISCOVERY_POSTS || '100', 10),
+};
+
+// Disasters still worth watching; reported ones are unconfirmed and the rest are over
+const MONITORED_STATUSES = ['verified', 'active', 'contained'];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const PUBLIC_FIELDS = 'id, created_at, disaster_id, uri, platform, author, author_display_name, author_avatar, content, url, posted_at, engagement, relevance_score, category, urgency, extracted, classified_by';
+
+const monitor = { timer: null, running: false, lastRun: null };
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+const toRow = (disasterId, post) => ({
+  disaster_id: disasterId,
+  uri: String(post.id),
+  platform: post.platform,
+  author: post.user ?? null,
+  author_display_name: post.userDisplayName ?? null,
+  author_avatar: post.userAvatar ?? null,
+  content: post.post,
+  url: post.url ?? null,
+  posted_at: new Date(post.timestamp || Date.now()).toISOString(),
+  engagement: post.engagement || {},
+  relevance_score: post.relevanceScore ?? null,
+  category: post.category ?? null,
+  urgency: post.urgency ?? null,
+  extracted: post.extracted || {},
+  classified_by: post.classifiedBy ?? null,
+});
+
+/**
+ * A stored post in the shape the live search returns, so clients can show
+ * both the same way.
+ * @param {Object} row - A social_posts row
+ */
+const toPost = (row) => ({
+  id: row.uri,
+  post: row.content,
+  user: row.author,
+  userDisplayName: row.author_display_name,
+  userAvatar: row.author_avatar,
+  timestamp: row.posted_at,
+  engagement: row.engagement,
+  relevanceScore: row.relevance_score,
+  category: row.category,
+  urgency: row.urgency,
+  extracted: row.extracted,
+  classifiedBy: row.classified_by,
+  platform: row.platform,
+  url: row.url,
+  disaster_id: row.disaster_id,
+  storedAt: row.created_at,
+});
+
+/**
+ * Save posts for a disaster, skipping any already stored (same URI), and
+ * push the new ones to the disaster's subscribers. Discovery posts
+ * (no disaster) are stored without being announced.
+ * @param {{id: number, tags?: string[], latitude?: number, longitude?: number}|null} disaster
+ * @param {Object[]} posts - Posts from socialMediaService.search()
+ * @returns {Promise<Object[]>} The posts that were new
+ */
+const storePosts = async (disaster, posts) => {
+  if (posts.length === 0) return [];
+  // Several server instances may poll the same disaster; the unique key lets only
+  // one of them insert (and announce) each post
+  const { data, error } = await supabase
+    .from('social_posts')
+    .upsert(posts.map(post => toRow(disaster?.id ?? null, post)), { onConflict: 'disaster_id,uri', ignoreDuplicates: true })
+    .select(PUBLIC_FIELDS);
+  if (error) throw error;
+
+  const created = data.map(toPost);
+  if (!disaster) return created;
+  for (const post of created) {
+    realtimeService.publish(EVENTS.SOCIAL_POST_CREATED, post, {
+      disasterId: disaster.id,
+      latitude: disaster.latitude,
+      longitude: disaster.longitude,
+      tags: disaster.tags || [],
+    });
+  }
+  return created;
+};
+
+/**
+ * Search the connectors for one disaster and store what is new.
+ * @param {Object} disaster - A disasters_with_coords row
+ * @returns {Promise<{found: number, stored: number, failedConnectors: string[]}>}
+ */
+const pollDisaster = async (disaster) => {
+  const result = await socialMediaService.search(buildSocialQuery(disaster), { limit: MONITOR_CONFIG.postsPerDisaster });
+  // Mock posts stand in for missing results on screen; they are never archived
+  if (result.isMockData) return { found: 0, stored: 0, failedConnectors: result.failedConnectors };
+  const stored = await storePosts(disaster, result.posts);
+  return { found: result.posts.length, stored: stored.length, failedConnectors: result.failedConnectors };
+};
+
+/**
+ * Search for disaster talk in general and store the relevant posts without a
+ * disaster, for trend detection.
+ * @returns {Promise<{found: number, stored: number, failedConnectors: string[]}>}
+ */
+const discover = async () => {
+  const result = await socialMediaService.search(buildDiscoveryQuery(), { limit: MONITOR_CONFIG.discoveryPosts });
+  if (result.isMockData) return { found: 0, stored: 0, failedConnectors: result.failedConnectors };
+  const relevant = result.posts.filter(post => post.category !== 'irrelevant');
+  const stored = await storePosts(null, relevant);
+  return { found: relevant.length, stored: stored.length, failedConnectors: result.failedConnectors };
+};
+
+// One pass over every monitored disaster, one at a time so the connectors' rate limits hold
+const runOnce = async () => {
+  if (monitor.running) return;
+  monitor.running = true;
+  const startedAt = Date.now();
+  try {
+    const { data: disasters, error } = await supabase
+      .from('disasters_with_coords')
+      .select('id, title, tags, location_name, social_search_terms, latitude, longitude')
+      .in('status', MONITORED_STATUSES);
+    if (error) throw error;
+
+    let stored = 0;
+    for (const disaster of disasters) {
+      try {
+        const outcome = await pollDisaster(disaster);
+        stored += outcome.stored;
+        if (outcome.stored > 0) logger.info('Stored new social media posts', { disasterId: disaster.id, ...outcome });
+      } catch (err) {
+        logger.error('Social media monitoring failed for disaster', { disasterId: disaster.id, error: err.message });
+      }
+    }
+    if (MONITOR_CONFIG.discovery) {
+      try {
+        const outcome = await discover();
+        stored += outcome.stored;
+        if (outcome.stored > 0) logger.info('Stored new discovery posts', outcome);
+      } catch (err) {
+        logger.error('Social media discovery search failed', { error: err.message });
+      }
+    }
+    monitor.lastRun = { finishedAt: new Date().toISOString(), disasters: disasters.length, stored, durationMs: Date.now() - startedAt };
+    logger.info('Social media monitor pass finished', monitor.lastRun);
+  } catch (err) {
+    logger.error('Social media monitor pass failed', { error: err.message });
+  } finally {
+    monitor.running = false;
+  }
+};
+
+const encodeCursor = (row) => Buffer.from(JSON.stringify({ p: row.posted_at, i: row.id })).toString('base64url');
+
+// The timestamp goes into a filter string as is, so only the form Postgres returns is accepted
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+const decodeCursor = (value) => {
+  try {
+    const { p, i } = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    if (typeof p !== 'string' || !CURSOR_TIMESTAMP.test(p) || isNaN(new Date(p).getTime()) || !Number.isInteger(i)) throw new Error('incomplete');
+    return { postedAt: p, id: i };
+  } catch {
+    throw badRequest("'cursor' is invalid.");
+  }
+};
+
+const parseDate = (value, name) => {
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) throw badRequest(`'${name}' must be a date.`);
+  return date.toISOString();
+};
+
+/**
+ * Validate archive query parameters: q (full-text search), platform,
+ * category and urgency (comma-separated lists), from, to (posted_at range),
+ * cursor and limit.
+ * @param {Object} query - Express req.query
+ * @returns {Object} Normalized filters
+ * @throws {Error} with statusCode 400 when a parameter is malformed
+ */
+const parseArchiveFilters = (query = {}) => {
+  const filters = { limit: DEFAULT_LIMIT };
+  if (query.q !== undefined && String(query.q).trim()) filters.text = String(query.q).trim();
+  if (query.platform !== undefined && query.platform !== '') filters.platform = String(query.platform);
+  for (const [name, allowed] of [['category', POST_CATEGORIES], ['urgency', URGENCY_LEVELS]]) {
+    if (query[name] === undefined || query[name] === '') continue;
+    const values = String(query[name]).split(',').map(value => value.trim()).filter(Boolean);
+    const invalid = values.find(value => !allowed.includes(value));
+    if (invalid) throw badRequest(`Invalid ${name} '${invalid}'. Expected one of: ${allowed.join(', ')}.`);
+    filters[name] = values;
+  }
+  if (query.from !== undefined) filters.from = parseDate(query.from, 'from');
+  if (query.to !== undefined) filters.to = parseDate(query.to, 'to');
+  if (filters.from && filters.to && filters.from > filters.to) throw badRequest("'from' must be before 'to'.");
+  if (query.cursor !== undefined) filters.cursor = decodeCursor(query.cursor);
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) throw badRequest(`'limit' must be an integer from 1 to ${MAX_LIMIT}.`);
+    filters.limit = limit;
+  }
+  return filters;
+};
+
+/**
+ * Stored posts of a disaster, newest first.
+ * @param {string|number} disasterId
+ * @param {Object} filters - Result of parseArchiveFilters()
+ * @returns {Promise<{data: Object[], nextCursor: string|null}>}
+ */
+const searchArchive = async (disasterId, filters) => {
+  let query = supabase.from('social_posts').select(PUBLIC_FIELDS).eq('disaster_id', disasterId);
+  if (filters.text) query = query.textSearch('search', filters.text, { type: 'websearch', config: 'english' });
+  if (filters.platform) query = query.eq('platform', filters.platform);
+  if (filters.category) query = query.in('category', filters.category);
+  if (filters.urgency) query = query.in('urgency', filters.urgency);
+  if (filters.from) query = query.gte('posted_at', filters.from);
+  if (filters.to) query = query.lte('posted_at', filters.to);
+  if (filters.cursor) {
+    const { postedAt, id } = filters.cursor;
+    query = query.or(`posted_at.lt."${postedAt}",and(posted_at.eq."${postedAt}",id.lt.${id})`);
+  }
+
+  const { data, error } = await query
+    .order('posted_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether there is another page
+    .limit(filters.limit + 1);
+  if (error) throw error;
+
+  const hasMore = data.length > filters.limit;
+  const rows = hasMore ? data.slice(0, filters.limit) : data;
+  return { data: rows.map(toPost), nextCursor: hasMore ? encodeCursor(rows[rows.length - 1]) : null };
+};
+
+/**
+ * Start polling on a schedule. Turned off with SOCIAL_MONITOR_ENABLED=false,
+ * e.g. on all but one instance to spare the connectors' rate limits.
+ */
+const start = () => {
+  if (!MONITOR_CONFIG.enabled || monitor.timer) return;
+  monitor.timer = setInterval(runOnce, MONITOR_CONFIG.intervalMs);
+  logger.info('Social media monitor started', { intervalMs: MONITOR_CONFIG.intervalMs, statuses: MONITORED_STATUSES });
+  runOnce();
+};
+
+const stop = () => {
+  clearInterval(monitor.timer);
+  monitor.timer = null;
+};
+
+export const socialMonitorService = {
+  pollDisaster,
+  discover,
+  runOnce,
+  parseArchiveFilters,
+  searchArchive,
+  getStatus: () => ({ running: monitor.running, lastRun: monitor.lastRun, intervalMs: MONITOR_CONFIG.intervalMs }),
+  start,
+  stop,
+};
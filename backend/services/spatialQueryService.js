@@ -0,0 +1,309 @@
+// src/services/spatialQueryService.js
+import supabase from '../config/supabaseClient.js';
+import { isValidStatus, isValidSeverity } from '../config/disasterLifecycle.js';
+
+// create view public.disasters_with_coords as
+//   select d.*, st_y(d.location::geometry) as latitude, st_x(d.location::geometry) as longitude
+//   from public.disasters d;
+//
+// Rows within a radius and/or inside a GeoJSON polygon. Returning the view's
+// row type lets PostgREST apply the remaining filters, ordering and limits.
+//
+// create or replace function public.disasters_in_area(
+//   p_lat double precision default null,
+//   p_lon double precision default null,
+//   p_radius_meters double precision default null,
+//   p_polygon jsonb default null
+// ) returns setof public.disasters_with_coords
+// language sql stable as $$
+//   select d.* from public.disasters_with_coords d
+//   where (p_radius_meters is null
+//          or st_dwithin(d.location, st_setsrid(st_makepoint(p_lon, p_lat), 4326)::geography, p_radius_meters))
+//     and (p_polygon is null
+//          or st_intersects(d.location::geometry, st_setsrid(st_geomfromgeojson(p_polygon::text), 4326)));
+// $$;
+//
+// public.resources_in_area has the same signature and body, over resources_with_coords.
+
+const DEFAULT_RADIUS_METERS = 10000;
+const MAX_RADIUS_METERS = 2000000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const MAX_TAGS = 20;
+const TAG_MODES = ['any', 'all'];
+// Upper bound for exports that page through every match
+const MAX_COLLECTED_ROWS = 10000;
+
+// What can be searched and filtered in each dataset
+const SOURCES = {
+  disasters: {
+    view: 'disasters_with_coords',
+    areaFunction: 'disasters_in_area',
+    textColumns: ['title', 'description', 'location_name'],
+    hasTags: true,
+    hasLifecycle: true,
+    equalityFilters: {},
+  },
+  resources: {
+    view: 'resources_with_coords',
+    areaFunction: 'resources_in_area',
+    textColumns: ['name', 'location_name'],
+    hasTags: false,
+    hasLifecycle: false,
+    equalityFilters: { type: 'resource_type', disaster_id: 'disaster_id' },
+  },
+};
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+// Accept "a,b" as well as repeated ?key=a&key=b parameters
+const toList = (value) => {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+};
+
+const parseNumber = (value, name) => {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number)) throw badRequest(`'${name}' must be a number.`);
+  return number;
+};
+
+const parseDate = (value, name) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw badRequest(`'${name}' must be an ISO 8601 date.`);
+  return date.toISOString();
+};
+
+const parseBbox = (value) => {
+  const values = toList(value).map(v => parseNumber(v, 'bbox'));
+  const [minLon, minLat, maxLon, maxLat] = values;
+  if (values.length !== 4 || minLat > maxLat || minLat < -90 || maxLat > 90
+    || [minLon, maxLon].some(lon => lon < -180 || lon > 180)) {
+    throw badRequest("'bbox' must be minLon,minLat,maxLon,maxLat in degrees.");
+  }
+  return values;
+};
+
+const isPosition = (position) => Array.isArray(position) && position.length >= 2
+  && position.every(n => typeof n === 'number' && Number.isFinite(n));
+const isRing = (ring) => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition);
+const isPolygonCoordinates = (rings) => Array.isArray(rings) && rings.length > 0 && rings.every(isRing);
+
+// Accepts a GeoJSON Polygon or MultiPolygon, bare or wrapped in a Feature
+const parsePolygon = (value) => {
+  let geometry;
+  try {
+    geometry = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw badRequest("'polygon' must be valid GeoJSON.");
+  }
+  if (geometry?.type === 'Feature') geometry = geometry.geometry;
+
+  const valid = geometry?.type === 'Polygon'
+    ? isPolygonCoordinates(geometry.coordinates)
+    : geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)
+      && geometry.coordinates.length > 0 && geometry.coordinates.every(isPolygonCoordinates);
+  if (!valid) throw badRequest("'polygon' must be a GeoJSON Polygon or MultiPolygon.");
+
+  return { type: geometry.type, coordinates: geometry.coordinates };
+};
+
+const encodeCursor = (row) => Buffer.from(JSON.stringify({ c: row.created_at, i: row.id })).toString('base64url');
+
+// The timestamp goes into a filter string as is, so only the form Postgres returns is accepted
+// (re-serializing through Date would drop the microseconds and skip rows between pages)
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+const decodeCursor = (value) => {
+  try {
+    const { c, i } = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    if (typeof c !== 'string' || !CURSOR_TIMESTAMP.test(c) || isNaN(new Date(c).getTime()) || !Number.isInteger(i)) throw new Error('incomplete');
+    return { createdAt: c, id: i };
+  } catch {
+    throw badRequest("'cursor' is invalid.");
+  }
+};
+
+// Characters with a meaning in PostgREST filter strings
+const sanitizeSearchText = (text) => text.replace(/[,()*%\\"]/g, ' ').trim();
+
+const rejectUnsupported = (query, names, sourceName) => {
+  const given = names.find(name => query[name] !== undefined);
+  if (given) throw badRequest(`'${given}' is not a filter for ${sourceName}.`);
+};
+
+/**
+ * Validate search query parameters into a filter object.
+ *
+ * Supported parameters: lat, lon, radius (meters), bbox, polygon (GeoJSON),
+ * from, to (created_at range), q (text search), cursor and limit.
+ * Disasters also take tags or tag, tag_mode (any|all), status and min_severity;
+ * resources take type and disaster_id.
+ *
+ * @param {Object} query - Express req.query
+ * @param {'disasters'|'resources'} [sourceName='disasters'] - Dataset being searched
+ * @returns {Object} Normalized filters
+ * @throws {Error} with statusCode 400 when a parameter is malformed
+ */
+const parseFilters = (query = {}, sourceName = 'disasters') => {
+  const source = SOURCES[sourceName];
+  const filters = { tagMode: 'any', limit: DEFAULT_LIMIT, equals: {} };
+  if (!source.hasTags) rejectUnsupported(query, ['tags', 'tag', 'tag_mode'], sourceName);
+  if (!source.hasLifecycle) rejectUnsupported(query, ['status', 'min_severity'], sourceName);
+
+  if (query.lat !== undefined || query.lon !== undefined) {
+    if (query.lat === undefined || query.lon === undefined) throw badRequest("'lat' and 'lon' must be given together.");
+    const lat = parseNumber(query.lat, 'lat');
+    const lon = parseNumber(query.lon, 'lon');
+    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) throw badRequest("'lat'/'lon' are out of range.");
+    const radius = query.radius === undefined ? DEFAULT_RADIUS_METERS : parseNumber(query.radius, 'radius');
+    if (radius <= 0 || radius > MAX_RADIUS_METERS) throw badRequest(`'radius' must be between 0 and ${MAX_RADIUS_METERS} meters.`);
+    filters.near = { lat, lon, radius };
+  } else if (query.radius !== undefined) {
+    throw badRequest("'radius' requires 'lat' and 'lon'.");
+  }
+
+  if (query.bbox !== undefined) filters.bbox = parseBbox(query.bbox);
+  if (query.polygon !== undefined) filters.polygon = parsePolygon(query.polygon);
+  if (query.from !== undefined) filters.from = parseDate(query.from, 'from');
+  if (query.to !== undefined) filters.to = parseDate(query.to, 'to');
+  if (filters.from && filters.to && filters.from > filters.to) throw badRequest("'from' must be before 'to'.");
+
+  const tags = [...new Set([...toList(query.tags), ...toList(query.tag)].map(tag => tag.toLowerCase()))];
+  if (tags.length > MAX_TAGS) throw badRequest(`At most ${MAX_TAGS} tags can be given.`);
+  if (tags.length > 0) filters.tags = tags;
+  if (query.tag_mode !== undefined) {
+    if (!TAG_MODES.includes(query.tag_mode)) throw badRequest(`'tag_mode' must be one of: ${TAG_MODES.join(', ')}.`);
+    filters.tagMode = query.tag_mode;
+  }
+
+  const statuses = toList(query.status);
+  const invalidStatus = statuses.find(status => !isValidStatus(status));
+  if (invalidStatus) throw badRequest(`Invalid status '${invalidStatus}'.`);
+  if (statuses.length > 0) filters.statuses = statuses;
+
+  if (query.min_severity !== undefined) {
+    const minSeverity = parseNumber(query.min_severity, 'min_severity');
+    if (!isValidSeverity(minSeverity)) throw badRequest("'min_severity' must be an integer from 1 to 5.");
+    filters.minSeverity = minSeverity;
+  }
+
+  for (const [param, column] of Object.entries(source.equalityFilters)) {
+    if (query[param] !== undefined && query[param] !== '') filters.equals[column] = String(query[param]);
+  }
+
+  if (query.q !== undefined) {
+    const text = sanitizeSearchText(String(query.q));
+    if (text) filters.text = text;
+  }
+
+  if (query.cursor !== undefined) filters.cursor = decodeCursor(query.cursor);
+  if (query.limit !== undefined) {
+    const limit = parseNumber(query.limit, 'limit');
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) throw badRequest(`'limit' must be an integer from 1 to ${MAX_LIMIT}.`);
+    filters.limit = limit;
+  }
+
+  return filters;
+};
+
+// Start from the plain view, or from the area function when a radius or polygon is involved
+const baseQuery = (source, filters) => {
+  if (!filters.near && !filters.polygon) return supabase.from(source.view).select('*');
+  return supabase.rpc(source.areaFunction, {
+    p_lat: filters.near?.lat ?? null,
+    p_lon: filters.near?.lon ?? null,
+    p_radius_meters: filters.near?.radius ?? null,
+    p_polygon: filters.polygon ?? null,
+  }).select('*');
+};
+
+const applyFilters = (query, source, filters) => {
+  if (filters.bbox) {
+    const [minLon, minLat, maxLon, maxLat] = filters.bbox;
+    query = query.gte('latitude', minLat).lte('latitude', maxLat);
+    // minLon > maxLon means the box crosses the antimeridian
+    query = minLon <= maxLon
+      ? query.gte('longitude', minLon).lte('longitude', maxLon)
+      : query.or(`longitude.gte.${minLon},longitude.lte.${maxLon}`);
+  }
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+  if (filters.tags) {
+    query = filters.tagMode === 'all' ? query.contains('tags', filters.tags) : query.overlaps('tags', filters.tags);
+  }
+  if (filters.statuses) query = query.in('status', filters.statuses);
+  if (filters.minSeverity) query = query.gte('severity', filters.minSeverity);
+  for (const [column, value] of Object.entries(filters.equals)) {
+    query = query.eq(column, value);
+  }
+  if (filters.text) {
+    const pattern = `*${filters.text}*`;
+    query = query.or(source.textColumns.map(column => `${column}.ilike.${pattern}`).join(','));
+  }
+  if (filters.cursor) {
+    const { createdAt, id } = filters.cursor;
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`);
+  }
+  return query;
+};
+
+// Newest first, with the id as a tie-breaker so the cursor is stable
+const runSearch = async (source, filters) => {
+  const query = applyFilters(baseQuery(source, filters), source, filters)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether there is another page
+    .limit(filters.limit + 1);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const hasMore = data.length > filters.limit;
+  const rows = hasMore ? data.slice(0, filters.limit) : data;
+  return { data: rows, nextCursor: hasMore ? encodeCursor(rows[rows.length - 1]) : null };
+};
+
+/**
+ * Search disasters with spatial, date, tag, status and text filters.
+ * @param {Object} filters - Result of parseFilters()
+ * @returns {Promise<{data: Object[], nextCursor: string|null}>}
+ */
+const searchDisasters = (filters) => runSearch(SOURCES.disasters, filters);
+
+/**
+ * Search resources with spatial, date, type, disaster and text filters.
+ * @param {Object} filters - Result of parseFilters(query, 'resources')
+ * @returns {Promise<{data: Object[], nextCursor: string|null}>}
+ */
+const searchResources = (filters) => runSearch(SOURCES.resources, filters);
+
+/**
+ * Follow the cursor through every page of a search, for exports.
+ * @param {'disasters'|'resources'} sourceName
+ * @param {Object} filters - Result of parseFilters()
+ * @returns {Promise<{data: Object[], truncated: boolean}>} truncated is true when MAX_COLLECTED_ROWS was reached
+ */
+const collectAll = async (sourceName, filters) => {
+  const rows = [];
+  let cursor = filters.cursor;
+  do {
+    const page = await runSearch(SOURCES[sourceName], { ...filters, cursor, limit: MAX_LIMIT });
+    rows.push(...page.data);
+    cursor = page.nextCursor && decodeCursor(page.nextCursor);
+  } while (cursor && rows.length < MAX_COLLECTED_ROWS);
+
+  return { data: rows.slice(0, MAX_COLLECTED_ROWS), truncated: Boolean(cursor) };
+};
+
+export const spatialQueryService = {
+  parseFilters,
+  searchDisasters,
+  searchResources,
+  collectAll,
+};
@@ -0,0 +1,35 @@
+// src/services/storageService.js
+import { randomUUID } from 'crypto';
+import mimeTypes from 'mime-types';
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+
+// Public Supabase Storage bucket that holds images attached to citizen reports
+const REPORT_IMAGE_BUCKET = process.env.REPORT_IMAGE_BUCKET || 'report-images';
+
+/**
+ * Upload an image to Supabase Storage and return its public URL.
+ * @param {Buffer} buffer - Raw image bytes
+ * @param {string} contentType - MIME type of the image
+ * @param {string} [folder] - Optional folder inside the bucket (e.g. the disaster id)
+ * @returns {Promise<string>} Public URL of the stored image
+ */
+const uploadImage = async (buffer, contentType, folder = 'misc') => {
+  const extension = mimeTypes.extension(contentType) || 'bin';
+  const path = `${folder}/${Date.now()}-${randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(REPORT_IMAGE_BUCKET)
+    .upload(path, buffer, { contentType, upsert: false });
+
+  if (error) {
+    logger.error('Error uploading image to storage', { error: error.message, path });
+    throw error;
+  }
+
+  const { data } = supabase.storage.from(REPORT_IMAGE_BUCKET).getPublicUrl(path);
+  logger.info('Image stored', { path, size: buffer.length });
+  return data.publicUrl;
+};
+
+export const storageService = { uploadImage };
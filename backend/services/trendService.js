@@ -0,0 +1,323 @@
+// src/services/trendService.js
+import supabase from '../config/supabaseClient.js';
+import { cacheService } from './cacheService.js';
+import { scrapingService } from './scrapingService.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_WINDOW_MINUTES = 60;
+const MIN_WINDOW_MINUTES = 5;
+const MAX_WINDOW_MINUTES = 24 * 60;
+const DEFAULT_BASELINE_WINDOWS = 6;
+const MAX_BASELINE_WINDOWS = 48;
+const DEFAULT_RADIUS_METERS = 50000;
+const MAX_RADIUS_METERS = 2000000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+// Newest posts read per request; older ones in the range are left out and the result says so
+const MAX_POSTS = 5000;
+const CACHE_TTL_SECONDS = 60;
+
+// A tag trends when enough people use it in the current window and far more than usual
+const MIN_POSTS = 3;
+const MIN_AUTHORS = 2;
+const MIN_SPIKE_SCORE = 2;
+const MIN_GROWTH = 2;
+// Two trending tags are one topic when most posts of the rarer one also use the other
+const MIN_SHARED_POSTS = 2;
+const MIN_OVERLAP = 0.5;
+const SAMPLE_POSTS = 3;
+
+const POST_FIELDS = 'id, disaster_id, uri, platform, author, author_display_name, content, url, posted_at, engagement, category, extracted';
+
+const badRequest = (message) => {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+};
+
+const parseNumber = (value, name) => {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number)) throw badRequest(`'${name}' must be a number.`);
+  return number;
+};
+
+const parseInteger = (value, name, min, max) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) throw badRequest(`'${name}' must be an integer from ${min} to ${max}.`);
+  return number;
+};
+
+/**
+ * Validate trend query parameters: window (minutes per window), baseline
+ * (earlier windows to compare with), lat, lon and radius (meters) or bbox
+ * (minLon,minLat,maxLon,maxLat) to limit the posts to an area, and limit
+ * (topics returned).
+ * @param {Object} query - Express req.query
+ * @returns {Object} Normalized filters
+ * @throws {Error} with statusCode 400 when a parameter is malformed
+ */
+const parseTrendFilters = (query = {}) => {
+  const filters = { windowMinutes: DEFAULT_WINDOW_MINUTES, baselineWindows: DEFAULT_BASELINE_WINDOWS, limit: DEFAULT_LIMIT };
+  if (query.window !== undefined) filters.windowMinutes = parseInteger(query.window, 'window', MIN_WINDOW_MINUTES, MAX_WINDOW_MINUTES);
+  if (query.baseline !== undefined) filters.baselineWindows = parseInteger(query.baseline, 'baseline', 1, MAX_BASELINE_WINDOWS);
+  if (query.limit !== undefined) filters.limit = parseInteger(query.limit, 'limit', 1, MAX_LIMIT);
+
+  if (query.lat !== undefined || query.lon !== undefined) {
+    if (query.lat === undefined || query.lon === undefined) throw badRequest("'lat' and 'lon' must be given together.");
+    const lat = parseNumber(query.lat, 'lat');
+    const lon = parseNumber(query.lon, 'lon');
+    if (lat < -90 || lat > 90 || lon < -180 || lon > 180) throw badRequest("'lat' or 'lon' is out of range.");
+    const radius = query.radius === undefined ? DEFAULT_RADIUS_METERS : parseNumber(query.radius, 'radius');
+    if (radius <= 0 || radius > MAX_RADIUS_METERS) throw badRequest(`'radius' must be between 0 and ${MAX_RADIUS_METERS} meters.`);
+    filters.near = { lat, lon, radius };
+  } else if (query.radius !== undefined) {
+    throw badRequest("'radius' requires 'lat' and 'lon'.");
+  }
+
+  if (query.bbox !== undefined) {
+    const values = String(query.bbox).split(',').map(value => parseNumber(value.trim(), 'bbox'));
+    const [minLon, minLat, maxLon, maxLat] = values;
+    if (values.length !== 4 || minLat > maxLat || minLat < -90 || maxLat > 90
+      || [minLon, maxLon].some(lon => lon < -180 || lon > 180)) {
+      throw badRequest("'bbox' must be minLon,minLat,maxLon,maxLat in degrees.");
+    }
+    filters.bbox = values;
+  }
+  return filters;
+};
+
+const distanceMeters = (a, b) => {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+const inArea = (point, filters) => {
+  if (filters.near && distanceMeters(point, filters.near) > filters.near.radius) return false;
+  if (filters.bbox) {
+    const [minLon, minLat, maxLon, maxLat] = filters.bbox;
+    // A box crossing the antimeridian has minLon > maxLon
+    const lonInside = minLon <= maxLon ? point.lon >= minLon && point.lon <= maxLon : point.lon >= minLon || point.lon <= maxLon;
+    if (!lonInside || point.lat < minLat || point.lat > maxLat) return false;
+  }
+  return true;
+};
+
+// Where a post is about: the places it mentions that could be geocoded, else its disaster's location
+const locate = (post, disasters) => {
+  const mentioned = [...(post.extracted?.addresses || []), ...(post.extracted?.places || [])]
+    .filter(place => Number.isFinite(place.latitude) && Number.isFinite(place.longitude))
+    .map(place => ({ lat: place.latitude, lon: place.longitude }));
+  if (mentioned.length > 0) return mentioned;
+  return post.disasterIds
+    .map(id => disasters.get(id))
+    .filter(disaster => Number.isFinite(disaster?.latitude) && Number.isFinite(disaster?.longitude))
+    .map(disaster => ({ lat: disaster.latitude, lon: disaster.longitude }));
+};
+
+const TERM_PATTERNS = Object.values(scrapingService.DISASTER_KEYWORDS).flat()
+  .map(term => ({ term, pattern: new RegExp(`\\b${term.replace(/[-\s]+/g, '[-\\s]+')}\\b`, 'i') }));
+
+/**
+ * The hashtags a post uses ('#flood') and the disaster words it mentions
+ * ('flash flood'), each once.
+ * @param {string} text
+ * @returns {string[]}
+ */
+const extractTags = (text) => {
+  const hashtags = [...String(text || '').matchAll(/(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]{2,50})/gu)]
+    .map(match => `#${match[1].toLowerCase()}`)
+    // Numbers are usually list items or issue numbers, not topics
+    .filter(tag => !/^#\d+$/.test(tag));
+  const terms = TERM_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ term }) => term);
+  return [...new Set([...hashtags, ...terms])];
+};
+
+// The same post is stored once per disaster it was found for, and once more by discovery
+const mergeByUri = (rows) => {
+  const byUri = new Map();
+  for (const row of rows) {
+    const existing = byUri.get(row.uri);
+    if (existing) {
+      if (row.disaster_id !== null && !existing.disasterIds.includes(row.disaster_id)) existing.disasterIds.push(row.disaster_id);
+      continue;
+    }
+    byUri.set(row.uri, { ...row, disasterIds: row.disaster_id === null ? [] : [row.disaster_id] });
+  }
+  return [...byUri.values()];
+};
+
+const fetchDisasters = async (ids) => {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase.from('disasters_with_coords').select('id, title, status, latitude, longitude').in('id', ids);
+  if (error) throw error;
+  return new Map(data.map(disaster => [disaster.id, disaster]));
+};
+
+/**
+ * How unusual the current count is against the baseline windows: the excess
+ * over the mean in standard deviations, with the deviation never taken as
+ * less than a Poisson count's (sqrt of the mean), so that a tag going from
+ * 0 to 3 does not outrank one going from 20 to 80.
+ */
+const spikeOf = (series) => {
+  const [current, ...baseline] = series;
+  const mean = baseline.reduce((sum, count) => sum + count, 0) / baseline.length;
+  const variance = baseline.reduce((sum, count) => sum + (count - mean) ** 2, 0) / baseline.length;
+  const deviation = Math.sqrt(Math.max(variance, mean, 1));
+  return {
+    baseline: Math.round(mean * 100) / 100,
+    score: Math.round(((current - mean) / deviation) * 100) / 100,
+    growth: Math.round(((current + 1) / (mean + 1)) * 100) / 100,
+  };
+};
+
+// Connected groups of tags, linking two tags that share most of their current posts
+const groupByCoOccurrence = (tags, postsByTag) => {
+  const parent = new Map(tags.map(tag => [tag, tag]));
+  const find = (tag) => {
+    while (parent.get(tag) !== tag) tag = parent.get(tag);
+    return tag;
+  };
+  for (let i = 0; i < tags.length; i++) {
+    for (let j = i + 1; j < tags.length; j++) {
+      const a = postsByTag.get(tags[i]);
+      const b = postsByTag.get(tags[j]);
+      let shared = 0;
+      for (const post of a) if (b.has(post)) shared++;
+      if (shared >= MIN_SHARED_POSTS && shared / Math.min(a.size, b.size) >= MIN_OVERLAP) parent.set(find(tags[i]), find(tags[j]));
+    }
+  }
+  const groups = new Map();
+  for (const tag of tags) groups.set(find(tag), [...(groups.get(find(tag)) || []), tag]);
+  return [...groups.values()];
+};
+
+const engagementOf = (post) => {
+  const { likes = 0, reposts = 0, replies = 0 } = post.engagement || {};
+  return likes + reposts * 2 + replies;
+};
+
+const describeTopic = (tags, stats, postsByTag, disasters) => {
+  const posts = [...new Set(tags.flatMap(tag => [...postsByTag.get(tag)]))];
+  const points = posts.flatMap(post => post.points);
+  const disasterIds = [...new Set(posts.flatMap(post => post.disasterIds))];
+  const timestamps = posts.map(post => new Date(post.posted_at).getTime());
+  return {
+    tags: tags.map(tag => ({ tag, ...stats.get(tag) })).sort((a, b) => b.score - a.score),
+    score: Math.max(...tags.map(tag => stats.get(tag).score)),
+    posts: posts.length,
+    authors: new Set(posts.map(post => post.author)).size,
+    firstSeen: new Date(Math.min(...timestamps)).toISOString(),
+    lastSeen: new Date(Math.max(...timestamps)).toISOString(),
+    center: points.length > 0
+      ? { latitude: points.reduce((sum, p) => sum + p.lat, 0) / points.length, longitude: points.reduce((sum, p) => sum + p.lon, 0) / points.length }
+      : null,
+    disasters: disasterIds.map(id => disasters.get(id)).filter(Boolean).map(({ id, title, status }) => ({ id, title, status })),
+    // Most posts are not about a known disaster: possibly a new incident
+    unlinked: posts.filter(post => post.disasterIds.length === 0).length > posts.length / 2,
+    samplePosts: [...posts].sort((a, b) => engagementOf(b) - engagementOf(a)).slice(0, SAMPLE_POSTS).map(post => ({
+      id: post.uri,
+      post: post.content,
+      user: post.author,
+      userDisplayName: post.author_display_name,
+      timestamp: post.posted_at,
+      platform: post.platform,
+      url: post.url,
+      category: post.category,
+    })),
+  };
+};
+
+/**
+ * Find topics that spike in the stored social media posts. Posts are split
+ * into windows of `windowMinutes` ending now; every hashtag and disaster
+ * word is counted per window (once per post), and those whose count in the
+ * current window is far above the earlier `baselineWindows` trend. Trending
+ * tags that appear in the same posts are grouped into one topic.
+ *
+ * Posts count towards an area by the places they mention or, failing that,
+ * their disaster's location; posts with neither are left out when an area is
+ * given.
+ *
+ * @param {Object} filters - Result of parseTrendFilters()
+ * @returns {Promise<Object>} The windows used and the topics, highest spike first
+ */
+const detectTrends = async (filters) => {
+  const cacheKey = `social:trending:${JSON.stringify(filters)}`;
+  const cached = await cacheService.get(cacheKey);
+  if (cached) return cached;
+
+  const windowMs = filters.windowMinutes * 60000;
+  const now = Date.now();
+  const since = new Date(now - windowMs * (filters.baselineWindows + 1)).toISOString();
+
+  const { data: rows, error } = await supabase
+    .from('social_posts')
+    .select(POST_FIELDS)
+    .gte('posted_at', since)
+    .order('posted_at', { ascending: false })
+    .limit(MAX_POSTS);
+  if (error) throw error;
+
+  const merged = mergeByUri(rows).filter(post => post.category !== 'irrelevant');
+  const disasters = await fetchDisasters([...new Set(merged.flatMap(post => post.disasterIds))]);
+  const located = merged.map(post => ({ ...post, points: locate(post, disasters) }));
+  const posts = filters.near || filters.bbox
+    ? located.filter(post => post.points.some(point => inArea(point, filters)))
+    : located;
+
+  // series[0] is the current window, then the baseline windows going back
+  const series = new Map();
+  const postsByTag = new Map();
+  const authorsByTag = new Map();
+  for (const post of posts) {
+    // Clocks differ, so a post stamped a little in the future counts as current
+    const windowIndex = Math.min(Math.max(Math.floor((now - new Date(post.posted_at).getTime()) / windowMs), 0), filters.baselineWindows);
+    for (const tag of extractTags(post.content)) {
+      if (!series.has(tag)) series.set(tag, new Array(filters.baselineWindows + 1).fill(0));
+      series.get(tag)[windowIndex]++;
+      if (windowIndex > 0) continue;
+      if (!postsByTag.has(tag)) {
+        postsByTag.set(tag, new Set());
+        authorsByTag.set(tag, new Set());
+      }
+      postsByTag.get(tag).add(post);
+      authorsByTag.get(tag).add(post.author);
+    }
+  }
+
+  const stats = new Map();
+  for (const [tag, counts] of series) {
+    if (counts[0] < MIN_POSTS || authorsByTag.get(tag).size < MIN_AUTHORS) continue;
+    const spike = spikeOf(counts);
+    if (spike.score < MIN_SPIKE_SCORE || spike.growth < MIN_GROWTH) continue;
+    stats.set(tag, { count: counts[0], authors: authorsByTag.get(tag).size, ...spike, series: [...counts].reverse() });
+  }
+
+  const topics = groupByCoOccurrence([...stats.keys()], postsByTag)
+    .map(tags => describeTopic(tags, stats, postsByTag, disasters))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, filters.limit);
+
+  const result = {
+    window: { minutes: filters.windowMinutes, from: new Date(now - windowMs).toISOString(), to: new Date(now).toISOString() },
+    baseline: { windows: filters.baselineWindows, from: since },
+    area: filters.near || filters.bbox ? { near: filters.near || null, bbox: filters.bbox || null } : null,
+    postsAnalyzed: posts.length,
+    // The range held more posts than are read; the oldest baseline windows are undercounted
+    truncated: rows.length === MAX_POSTS,
+    topics,
+  };
+  logger.info('Detected social media trends', { windowMinutes: filters.windowMinutes, posts: posts.length, topics: topics.length });
+  await cacheService.set(cacheKey, result, CACHE_TTL_SECONDS);
+  return result;
+};
+
+export const trendService = {
+  parseTrendFilters,
+  detectTrends,
+  extractTags,
+};
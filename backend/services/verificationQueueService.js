@@ -0,0 +1,356 @@
+// src/services/verificationQueueService.js
+import { randomUUID } from 'crypto';
+import supabase from '../config/supabaseClient.js';
+import { logger } from '../utils/logger.js';
+import { realtimeService, EVENTS } from './realtimeService.js';
+import { verificationService } from './verificationService.js';
+import { PERMISSIONS } from '../config/permissions.js';
+
+// create table public.verification_jobs (
+//   id bigint generated by default as identity not null,
+//   created_at timestamp with time zone not null default now(),
+//   updated_at timestamp with time zone not null default now(),
+//   kind text not null check (kind in ('image', 'report')),
+//   status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+//   stage text not null default 'queued',
+//   progress smallint not null default 0,
+//   image_url text not null,
+//   report_id bigint null,
+//   disaster_id bigint null,
+//   batch_id uuid null,
+//   requested_by text null,
+//   attempts integer not null default 0,
+//   max_attempts integer not null default 5,
+//   run_after timestamp with time zone not null default now(),
+//   locked_at timestamp with time zone null,
+//   last_error text null,
+//   result jsonb null,
+//   constraint verification_jobs_pkey primary key (id),
+//   constraint verification_jobs_report_id_fkey foreign key (report_id) references reports (id) on delete cascade
+// );
+// create index verification_jobs_runnable_idx on public.verification_jobs (run_after, id) where status in ('queued', 'running');
+// create index verification_jobs_batch_id_idx on public.verification_jobs (batch_id);
+//
+// Take the next job that is due, or one whose worker died (still 'running'
+// after p_stale_after_seconds), so several workers never run the same job
+// create or replace function public.claim_verification_job(p_stale_after_seconds int)
+// returns setof public.verification_jobs language sql as $$
+//   update public.verification_jobs j
+//   set status = 'running', stage = 'starting', progress = 0, attempts = j.attempts + 1,
+//       locked_at = now(), updated_at = now()
+//   where j.id = (
+//     select id from public.verification_jobs
+//     where (status = 'queued' and run_after <= now())
+//        or (status = 'running' and locked_at < now() - make_interval(secs => p_stale_after_seconds))
+//     order by run_after, id
+//     limit 1
+//     for update skip locked
+//   )
+//   returning j.*;
+// $$;
+
+const QUEUE_CONFIG = {
+  pollIntervalMs: parseInt(process.env.VERIFICATION_POLL_INTERVAL_MS || '2000', 10),
+  concurrency: parseInt(process.env.VERIFICATION_WORKER_CONCURRENCY || '2', 10),
+  maxAttempts: parseInt(process.env.VERIFICATION_MAX_ATTEMPTS || '5', 10),
+  // Retry delays double from the base up to the cap: 30s, 1m, 2m, 4m...
+  baseBackoffMs: parseInt(process.env.VERIFICATION_BASE_BACKOFF_MS || '30000', 10),
+  maxBackoffMs: parseInt(process.env.VERIFICATION_MAX_BACKOFF_MS || String(30 * 60 * 1000), 10),
+  // A job still running after this long is assumed lost with its worker
+  staleAfterSeconds: parseInt(process.env.VERIFICATION_STALE_AFTER_SECONDS || '600', 10),
+};
+
+// Reports that can be sent for (re-)verification in a batch
+const BATCH_REPORT_STATUSES = ['pending'];
+const MAX_BATCH_SIZE = 500;
+
+// Progress reported for each stage of a job
+const STAGE_PROGRESS = {
+  queued: 0,
+  starting: 5,
+  downloading: 20,
+  analyzing: 50,
+  saving: 90,
+  done: 100,
+};
+
+const PUBLIC_FIELDS = 'id, created_at, updated_at, kind, status, stage, progress, image_url, report_id, disaster_id, batch_id, attempts, max_attempts, run_after, last_error, result';
+
+const worker = { timer: null, running: 0, polling: false };
+
+const backoffFor = (attempts) => Math.min(QUEUE_CONFIG.maxBackoffMs, QUEUE_CONFIG.baseBackoffMs * 2 ** Math.max(0, attempts - 1));
+
+// Tell the requester, and anyone following the disaster, how the job is doing. The verdict
+// and image may concern a report that ends up hidden, so only the requester and roles that
+// may see hidden reports get them; other subscribers only see the job's progress.
+const announce = (job) => {
+  const { requested_by, locked_at, ...payload } = job;
+  if (requested_by) realtimeService.publishToUser(requested_by, EVENTS.VERIFICATION_JOB_UPDATED, payload);
+  if (job.disaster_id) {
+    const { result, image_url, last_error, ...progress } = payload;
+    realtimeService.publish(EVENTS.VERIFICATION_JOB_UPDATED, progress, { disasterId: job.disaster_id }, {
+      privileged: { permission: PERMISSIONS.REPORT_VIEW_HIDDEN, payload },
+    });
+  }
+};
+
+const updateJob = async (id, fields) => {
+  const { data, error } = await supabase
+    .from('verification_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .single();
+  if (error) throw error;
+  announce(data);
+  return data;
+};
+
+const setStage = (job, stage) => updateJob(job.id, { stage, progress: STAGE_PROGRESS[stage] });
+
+// Store a report's verdict and let its disaster's subscribers know
+const saveReportVerification = async (reportId, verification_status, verification_result) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .update({ verification_status, verification_result, verified_at: new Date().toISOString() })
+    .eq('id', reportId)
+    .select('*')
+    .single();
+  if (error) throw error;
+  // Rejected reports are hidden from those who may not see them, as in GET /reports
+  if (data.verification_status === 'rejected') {
+    realtimeService.publish(
+      EVENTS.REPORT_VERIFIED,
+      { type: 'DELETE', payload: { id: data.id, disaster_id: data.disaster_id } },
+      { disasterId: data.disaster_id },
+      { privileged: { permission: PERMISSIONS.REPORT_VIEW_HIDDEN, payload: { type: 'UPDATE', payload: data } } },
+    );
+  } else {
+    realtimeService.publish(EVENTS.REPORT_VERIFIED, { type: 'UPDATE', payload: data }, { disasterId: data.disaster_id });
+  }
+  return data;
+};
+
+const runJob = async (job) => {
+  const onProgress = (stage) => setStage(job, stage);
+
+  if (job.kind === 'report') {
+    const result = await verificationService.verifyImage(job.image_url, {
+      disasterId: job.disaster_id,
+      reportId: job.report_id,
+      onProgress,
+    });
+    await setStage(job, 'saving');
+    const status = verificationService.toVerificationStatus(result);
+    await saveReportVerification(job.report_id, status, result);
+    return { verification_status: status, ...result };
+  }
+
+  return verificationService.verifyImageSimple(job.image_url, { disasterId: job.disaster_id ?? undefined, onProgress });
+};
+
+// Retry with backoff, or give up once the attempts run out or the error can't go away
+const handleFailure = async (job, err) => {
+  const exhausted = err.permanent || job.attempts >= job.max_attempts;
+  if (!exhausted) {
+    const delay = backoffFor(job.attempts);
+    logger.warn('Verification job failed, will retry', { jobId: job.id, attempts: job.attempts, retryInMs: delay, error: err.message });
+    await updateJob(job.id, {
+      status: 'queued',
+      stage: 'queued',
+      progress: STAGE_PROGRESS.queued,
+      run_after: new Date(Date.now() + delay).toISOString(),
+      locked_at: null,
+      last_error: err.message,
+    });
+    return;
+  }
+
+  logger.error('Verification job failed', { jobId: job.id, attempts: job.attempts, error: err.message });
+  await updateJob(job.id, { status: 'failed', stage: 'done', progress: STAGE_PROGRESS.done, locked_at: null, last_error: err.message });
+  // Leave the report for a human, as when verification never ran
+  if (job.kind === 'report') {
+    await saveReportVerification(job.report_id, 'needs_review', { error: err.message });
+  }
+};
+
+const processJob = async (job) => {
+  try {
+    // A job reclaimed from a dead worker may already have used its last attempt
+    if (job.attempts > job.max_attempts) {
+      throw Object.assign(new Error('Gave up after the worker running it stopped'), { permanent: true });
+    }
+    announce(job);
+    const result = await runJob(job);
+    await updateJob(job.id, { status: 'succeeded', stage: 'done', progress: STAGE_PROGRESS.done, locked_at: null, last_error: null, result });
+    logger.info('Verification job succeeded', { jobId: job.id, kind: job.kind, attempts: job.attempts });
+  } catch (err) {
+    try {
+      await handleFailure(job, err);
+    } catch (saveError) {
+      // The job stays 'running' and is picked up again once it goes stale
+      logger.error('Error recording verification job failure', { jobId: job.id, error: saveError.message });
+    }
+  }
+};
+
+const claimJob = async () => {
+  const { data, error } = await supabase.rpc('claim_verification_job', {
+    p_stale_after_seconds: QUEUE_CONFIG.staleAfterSeconds,
+  });
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+// Start jobs until the worker is full or nothing is due
+const poll = async () => {
+  if (worker.polling) return;
+  worker.polling = true;
+  try {
+    while (worker.running < QUEUE_CONFIG.concurrency) {
+      const job = await claimJob();
+      if (!job) break;
+      worker.running++;
+      processJob(job).finally(() => {
+        worker.running--;
+        // A slot is free; look for more work without waiting for the next tick
+        if (worker.timer) setImmediate(poll);
+      });
+    }
+  } catch (err) {
+    logger.error('Error polling verification jobs', { error: err.message });
+  } finally {
+    worker.polling = false;
+  }
+};
+
+const insertJobs = async (rows) => {
+  const { data, error } = await supabase
+    .from('verification_jobs')
+    .insert(rows.map(row => ({ max_attempts: QUEUE_CONFIG.maxAttempts, ...row })))
+    .select(PUBLIC_FIELDS);
+  if (error) throw error;
+  if (worker.timer) setImmediate(poll);
+  return data;
+};
+
+/**
+ * Queue verification of an image URL. The result is stored on the job.
+ * @param {{imageUrl: string, disasterId?: string|number, requestedBy?: string}} request
+ * @returns {Promise<Object>} The queued job
+ */
+const enqueueImage = async ({ imageUrl, disasterId, requestedBy }) => {
+  const [job] = await insertJobs([{
+    kind: 'image',
+    image_url: imageUrl,
+    disaster_id: disasterId ?? null,
+    requested_by: requestedBy ?? null,
+  }]);
+  logger.info('Queued image verification', { jobId: job.id, imageUrl });
+  return job;
+};
+
+/**
+ * Queue verification of reports; the verdict is saved on each report.
+ * Reports that already have a job waiting or running are skipped.
+ * @param {Object[]} reports - Rows with id, disaster_id and image_url
+ * @param {{requestedBy?: string, batchId?: string}} [options]
+ * @returns {Promise<Object[]>} The queued jobs
+ */
+const enqueueReports = async (reports, { requestedBy, batchId } = {}) => {
+  const withImages = reports.filter(report => report.image_url);
+  if (withImages.length === 0) return [];
+
+  const { data: active, error } = await supabase
+    .from('verification_jobs')
+    .select('report_id')
+    .in('report_id', withImages.map(report => report.id))
+    .in('status', ['queued', 'running']);
+  if (error) throw error;
+  const busy = new Set(active.map(job => String(job.report_id)));
+
+  const rows = withImages
+    .filter(report => !busy.has(String(report.id)))
+    .map(report => ({
+      kind: 'report',
+      image_url: report.image_url,
+      report_id: report.id,
+      disaster_id: report.disaster_id,
+      batch_id: batchId ?? null,
+      requested_by: requestedBy ?? null,
+    }));
+  return rows.length > 0 ? insertJobs(rows) : [];
+};
+
+/**
+ * Queue every pending report with an image for one disaster.
+ * @param {string|number} disasterId
+ * @param {{requestedBy?: string}} [options]
+ * @returns {Promise<{batchId: string, jobs: Object[], skipped: number}>}
+ */
+const enqueueDisasterReports = async (disasterId, { requestedBy } = {}) => {
+  const { data: reports, error } = await supabase
+    .from('reports')
+    .select('id, disaster_id, image_url')
+    .eq('disaster_id', disasterId)
+    .in('verification_status', BATCH_REPORT_STATUSES)
+    .not('image_url', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(MAX_BATCH_SIZE);
+  if (error) throw error;
+
+  const batchId = randomUUID();
+  const jobs = await enqueueReports(reports, { requestedBy, batchId });
+  logger.info('Queued batch report verification', { disasterId, batchId, queued: jobs.length, found: reports.length });
+  return { batchId, jobs, skipped: reports.length - jobs.length };
+};
+
+/**
+ * @param {string|number} id
+ * @returns {Promise<Object|null>} The job with its progress and, once finished, its result
+ */
+const getJob = async (id) => {
+  const { data, error } = await supabase.from('verification_jobs').select(PUBLIC_FIELDS).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Jobs of one batch, oldest first.
+ * @param {string} batchId
+ */
+const listBatch = async (batchId) => {
+  const { data, error } = await supabase
+    .from('verification_jobs')
+    .select(PUBLIC_FIELDS)
+    .eq('batch_id', batchId)
+    .order('id', { ascending: true });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Start the in-process worker. Jobs are claimed through the database, so
+ * several server instances can run workers side by side.
+ */
+const start = () => {
+  if (worker.timer) return;
+  worker.timer = setInterval(poll, QUEUE_CONFIG.pollIntervalMs);
+  logger.info('Verification worker started', { concurrency: QUEUE_CONFIG.concurrency, pollIntervalMs: QUEUE_CONFIG.pollIntervalMs });
+  poll();
+};
+
+const stop = () => {
+  clearInterval(worker.timer);
+  worker.timer = null;
+};
+
+export const verificationQueueService = {
+  enqueueImage,
+  enqueueReports,
+  enqueueDisasterReports,
+  getJob,
+  listBatch,
+  start,
+  stop,
+};
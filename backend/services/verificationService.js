@@ -1,125 +1,231 @@
-import {
-  GoogleGenAI,
-  Type,
-} from '@google/genai';
-import mime from 'mime';
-import https from 'https';
-import http from 'http';
+import { fetchImage } from '../utils/safeFetch.js';
+import supabase from '../config/supabaseClient.js';
 import { cacheService } from './cacheService.js';
 import { logger } from '../utils/logger.js';
+import { aiService } from './aiService.js';
+import { imageForensicsService } from './imageForensicsService.js';
+import { imageHashService } from './imageHashService.js';
 
+/**
+ * Download an image through the safe fetcher: private addresses, oversized
+ * files and content that isn't the image type it claims are refused.
+ * @param {string} url
+ * @returns {Promise<{buffer: Buffer, mimeType: string}>}
+ */
 async function downloadImage(url) {
-  return new Promise((resolve, reject) => {
-    const client = url.startsWith('https') ? https : http;
-    
-    client.get(url, (response) => {
-      if (response.statusCode !== 200) {
-        const error = new Error(`Failed to download image: ${response.statusCode}`);
-        logger.error('Image download failed', { url, statusCode: response.statusCode });
-        reject(error); // Fixed: was missing reject call
-        return;
-      }
-      
-      const chunks = [];
-      response.on('data', (chunk) => chunks.push(chunk));
-      response.on('end', () => {
-        const buffer = Buffer.concat(chunks);
-        resolve(buffer);
-      });
-    }).on('error', (error) => {
-      reject(error);
-    });
+  try {
+    const { buffer, mimeType } = await fetchImage(url);
+    return { buffer, mimeType };
+  } catch (error) {
+    logger.error('Image download failed', { url, error: error.message });
+    throw error;
+  }
+}
+
+// Weight of the AI verdict relative to the forensic signals (see imageForensicsService)
+const AI_WEIGHT = 1;
+// Weight of a match with an image already submitted for a different disaster
+const RECYCLED_IMAGE_WEIGHT = 0.5;
+
+/**
+ * @typedef {Object} VerificationResult
+ * @property {boolean} is_authentic - Combined verdict: the signals point to an authentic disaster photo
+ * @property {number} confidence_score - 0-1, how strongly the signals agree
+ * @property {string} disaster_context - What the image shows, from the AI when available
+ * @property {string} raw_analysis - The AI's reasoning, if any
+ * @property {import('./imageForensicsService.js').VerificationSignal[]} signals - Every signal, with its explanation
+ * @property {Object} forensics - Format, dimensions, JPEG quality, EXIF fields and perceptual hash of the file
+ * @property {Array<{report_id: number|null, disaster_id: number|null, disaster_title: string|null, image_url: string|null, source: string, distance: number, first_seen: string}>} duplicates
+ *   Earlier submissions of the same picture
+ * @property {{is_authentic: boolean, confidence_score: number, disaster_context: string, raw_analysis: string}|{error: string}} ai
+ * @property {{provider: string, model: string, prompt_version: string}|null} analyzed_by
+ */
+
+// Location and report date of a disaster, to compare with the image's EXIF data
+async function loadDisaster(disasterId) {
+  if (!disasterId) return null;
+  const { data, error } = await supabase
+    .from('disasters_with_coords')
+    .select('id, latitude, longitude, created_at')
+    .eq('id', disasterId)
+    .maybeSingle();
+  if (error) {
+    logger.warn('Could not load disaster for image verification', { disasterId, error: error.message });
+    return null;
+  }
+  return data;
+}
+
+// Ask the configured AI provider about the image. Models return booleans and
+// numbers as strings at times, so the answer is normalized here.
+async function analyzeWithAI(imageBuffer, mimeType, imageUrl) {
+  logger.info('Sending image verification request to the AI provider', { imageUrl, mimeType });
+  const { data, meta } = await aiService.analyzeImage('image-verification', { data: imageBuffer, mimeType });
+  const confidence = parseFloat(data.confidence_score);
+  return {
+    is_authentic: data.is_authentic === true || String(data.is_authentic).toLowerCase() === 'true',
+    confidence_score: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    disaster_context: String(data.disaster_context ?? ''),
+    raw_analysis: String(data.raw_analysis ?? ''),
+    analyzed_by: { provider: meta.provider, model: meta.model, prompt_version: meta.promptVersion },
+  };
+}
+
+const aiSignal = (ai) => {
+  if (ai.error) {
+    return { id: 'ai_verdict', source: 'ai', outcome: 'neutral', weight: 0, explanation: `AI analysis failed: ${ai.error}` };
+  }
+  const weight = AI_WEIGHT * ai.confidence_score;
+  return {
+    id: 'ai_verdict',
+    source: 'ai',
+    outcome: weight === 0 ? 'neutral' : ai.is_authentic ? 'supports' : 'contradicts',
+    weight,
+    explanation: `${ai.is_authentic ? 'Looks authentic' : 'Looks manipulated or unrelated'} to the AI (confidence ${ai.confidence_score}): ${ai.disaster_context}`,
+  };
+};
+
+const toDuplicate = (match) => ({
+  report_id: match.report_id,
+  disaster_id: match.disaster_id,
+  disaster_title: match.disaster_title,
+  image_url: match.image_url,
+  source: match.source,
+  distance: match.distance,
+  first_seen: match.created_at,
+});
+
+// Earlier submissions of a look-alike image, or [] when the index can't be searched
+async function findDuplicates(hash, reportId) {
+  if (!hash) return [];
+  try {
+    const matches = await imageHashService.findSimilar(hash, { excludeReportId: reportId });
+    return matches.map(toDuplicate);
+  } catch (error) {
+    logger.error('Error searching for duplicate images', { error: error.message });
+    return [];
+  }
+}
+
+// A picture already submitted for another disaster is most likely recycled
+const duplicateSignal = (duplicates, disasterId) => {
+  const recycled = duplicates.find(match => match.disaster_id && String(match.disaster_id) !== String(disasterId));
+  if (recycled) {
+    return {
+      id: 'recycled_image',
+      source: 'forensics',
+      outcome: 'contradicts',
+      weight: RECYCLED_IMAGE_WEIGHT,
+      explanation: `Same picture as ${recycled.report_id ? `report #${recycled.report_id}` : 'an image'} for "${recycled.disaster_title || `disaster #${recycled.disaster_id}`}", first seen ${recycled.first_seen.slice(0, 10)}.`,
+    };
+  }
+  return {
+    id: 'recycled_image',
+    source: 'forensics',
+    outcome: 'neutral',
+    weight: 0,
+    explanation: duplicates.length > 0
+      ? `Matches ${duplicates.length} earlier submission(s) for this disaster.`
+      : 'No earlier submission of this picture.',
+  };
+};
+
+// Balance the signals into the verdict: each adds its weight for or against authenticity
+const combine = ({ signals, ai, forensics, duplicates }) => {
+  const balance = signals.reduce((sum, { outcome, weight }) =>
+    sum + (outcome === 'supports' ? weight : outcome === 'contradicts' ? -weight : 0), 0);
+  const { analyzed_by = null, ...aiResult } = ai;
+
+  return {
+    is_authentic: balance > 0,
+    confidence_score: Math.round(Math.min(1, Math.abs(balance)) * 100) / 100,
+    disaster_context: ai.disaster_context || 'Not analyzed by AI.',
+    raw_analysis: ai.raw_analysis || '',
+    signals,
+    forensics,
+    duplicates,
+    ai: aiResult,
+    analyzed_by,
+  };
+};
+
+/**
+ * Run the local forensics and the duplicate check, then the AI, and combine
+ * them (see combine). An AI failure leaves the other signals to decide.
+ * The image is added to the duplicate index afterwards.
+ * @param {{disaster?: Object|null, reportId?: string|number, source: 'report'|'verify_image'}} context
+ * @returns {Promise<VerificationResult>}
+ */
+async function analyzeImage(imageBuffer, mimeType, imageUrl, { disaster = null, reportId, source }) {
+  const forensics = imageForensicsService.analyze(imageBuffer, disaster);
+
+  let hash = null;
+  try {
+    hash = await imageHashService.computeHash(imageBuffer);
+  } catch (error) {
+    logger.warn('Could not compute a perceptual hash', { error: error.message, imageUrl });
+  }
+  const duplicates = await findDuplicates(hash, reportId);
+
+  let ai;
+  try {
+    ai = await analyzeWithAI(imageBuffer, mimeType, imageUrl);
+  } catch (error) {
+    logger.error('AI image analysis failed, using forensics only', { error: error.message, imageUrl });
+    ai = { error: error.message };
+  }
+
+  if (hash) await imageHashService.indexImage({ hash, imageUrl, reportId, disasterId: disaster?.id, source });
+
+  return combine({
+    signals: [...forensics.signals, duplicateSignal(duplicates, disaster?.id), aiSignal(ai)],
+    ai,
+    forensics: { ...forensics.metadata, perceptualHash: hash },
+    duplicates,
   });
 }
 
-async function verifyImage(imageUrl) {
-  const cacheKey = `verify-image:${imageUrl}`;
+/**
+ * Verify an image by URL, optionally for the report and disaster it was
+ * submitted with. The analysis is cached for an hour, but the duplicate
+ * check is always redone: the same URL in a new report is itself a duplicate.
+ * @param {string} imageUrl
+ * @param {{disasterId?: string|number, reportId?: string|number, onProgress?: (stage: 'downloading'|'analyzing') => void}} [options]
+ * @returns {Promise<VerificationResult>}
+ */
+async function verifyImage(imageUrl, { disasterId, reportId, onProgress = () => {} } = {}) {
+  const cacheKey = `verify-image:${disasterId ?? '-'}:${imageUrl}`;
+  const source = reportId !== undefined ? 'report' : 'verify_image';
   const cachedData = await cacheService.get(cacheKey);
   if (cachedData) {
     logger.info('Cache hit for image verification', { imageUrl });
-    return cachedData;
+    const hash = cachedData.forensics?.perceptualHash;
+    if (!hash) return cachedData;
+
+    const duplicates = await findDuplicates(hash, reportId);
+    await imageHashService.indexImage({ hash, imageUrl, reportId, disasterId, source });
+    return combine({
+      ...cachedData,
+      signals: [...cachedData.signals.filter(signal => signal.id !== 'recycled_image'), duplicateSignal(duplicates, disasterId)],
+      ai: { ...cachedData.ai, analyzed_by: cachedData.analyzed_by },
+      duplicates,
+    });
   }
   
   try {
     logger.info('Downloading image for verification', { imageUrl });
-    const imageBuffer = await downloadImage(imageUrl);
-    logger.info('Image downloaded successfully', { imageUrl, size: imageBuffer.length });
-    
-    // Get MIME type from URL extension
-    const mimeType = mime.getType(imageUrl) || 'image/jpeg';
-    
-    // Convert buffer to base64
-    const base64Data = imageBuffer.toString('base64');
-    
-    // Initialize Gemini AI
-     const ai = new GoogleGenAI({
-    apiKey: process.env.GEMINI_API_KEY,
-  });
-  const config = {
-    thinkingConfig: {
-      thinkingBudget: -1,
-    },
-    responseMimeType: 'application/json',
-    responseSchema: {
-      type: Type.OBJECT,
-      required: ["is_authentic", "disaster_context", "confidence_score", "raw_analysis"],
-      properties: {
-        is_authentic: {
-          type: Type.STRING,
-        },
-        disaster_context: {
-          type: Type.STRING,
-        },
-        confidence_score: {
-          type: Type.STRING,
-        },
-        raw_analysis: {
-          type: Type.STRING,
-        },
-      },
-    },
-    systemInstruction: [
-        {
-          text: `Analyze the image allegedly from a disaster ,Is it related to a real-world disaster like a flood, fire, or earthquake? Does it show any obvious signs of digital manipulation or being AI-generated? Respond with a JSON object with keys: "is_authentic" (boolean), "disaster_context" (string, e.g., "Appears to be a real photo of a building fire."), "confidence_score" (number between 0 and 1), and "raw_analysis" (string, your detailed reasoning).\` 100 words`,
-        }
-    ],
-  };
+    await onProgress('downloading');
+    const { buffer: imageBuffer, mimeType } = await downloadImage(imageUrl);
+    logger.info('Image downloaded successfully', { imageUrl, size: imageBuffer.length, mimeType });
+    await onProgress('analyzing');
     
-    const model = 'gemini-2.5-flash';
-    
-    // Fixed: Correct structure based on API documentation
-    const contents = [
-      {
-        role: 'user',
-        parts: [
-          {
-            text: 'Analyze this disaster image for authenticity',
-          },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data,
-            },
-          },
-        ],
-      },
-    ];
-    
-    logger.info('Sending image verification request to Gemini AI', { imageUrl, mimeType });
-    
-    // Fixed: Use correct method call structure
-    const response = await ai.models.generateContent({
-      model,
-      config,
-      contents,
-    });
-    
-    const result = JSON.parse(response.text);
+    const disaster = await loadDisaster(disasterId);
+    const result = await analyzeImage(imageBuffer, mimeType, imageUrl, { disaster, reportId, source });
     
     // Cache the result
     await cacheService.set(cacheKey, result, 3600); // Cache for 1 hour
     
-    logger.info('Image verification response received', { result });
+    logger.info('Image verification completed', { imageUrl, isAuthentic: result.is_authentic, confidence: result.confidence_score, duplicates: result.duplicates.length });
     return result;
     
   } catch (error) {
@@ -128,95 +234,69 @@ async function verifyImage(imageUrl) {
   }
 }
 
-// Alternative simpler version based on the API documentation
-
-// Helper function to extract JSON from markdown code blocks
-function extractJsonFromResponse(text) {
+/**
+ * Verify an image by URL without caching (see verifyImage).
+ * @param {string} imageUrl
+ * @param {{disasterId?: string|number, onProgress?: (stage: 'downloading'|'analyzing') => void}} [options]
+ * @returns {Promise<VerificationResult>}
+ */
+async function verifyImageSimple(imageUrl, { disasterId, onProgress = () => {} } = {}) {
   try {
-    // First try to parse directly as JSON
-    return JSON.parse(text);
-  } catch (error) {
-    // If that fails, try to extract from markdown code blocks
-    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[1]);
-      } catch (parseError) {
-        logger.error('Failed to parse JSON from markdown block', { text, error: parseError.message });
-        throw new Error(`Failed to parse JSON response: ${parseError.message}`);
-      }
-    }
-    
-    // If no markdown blocks found, try to find JSON-like content
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-      try {
-        return JSON.parse(text.slice(jsonStart, jsonEnd + 1));
-      } catch (parseError) {
-        logger.error('Failed to parse extracted JSON', { text, error: parseError.message });
-        throw new Error(`Failed to parse JSON response: ${parseError.message}`);
-      }
-    }
+    logger.info('Downloading image for verification', { imageUrl });
+    await onProgress('downloading');
+    const { buffer: imageBuffer, mimeType } = await downloadImage(imageUrl);
+    await onProgress('analyzing');
+    const disaster = await loadDisaster(disasterId);
+    return await analyzeImage(imageBuffer, mimeType, imageUrl, { disaster, source: 'verify_image' });
     
-    throw new Error('No valid JSON found in response');
+  } catch (error) {
+    logger.error('Error verifying image', { error: error.message, imageUrl });
+    throw error;
   }
 }
 
-async function verifyImageSimple(imageUrl) {
+/**
+ * Find indexed images that look like the given one, without adding it to the index.
+ * @param {Buffer} imageBuffer
+ * @returns {Promise<{hash: string, matches: Array}>}
+ */
+async function findSimilarImages(imageBuffer) {
+  let hash;
   try {
-    logger.info('Downloading image for verification', { imageUrl });
-    
-    // Use fetch instead of manual http/https
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download image: ${response.status}`);
-    }
-    
-    const imageArrayBuffer = await response.arrayBuffer();
-    const base64ImageData = Buffer.from(imageArrayBuffer).toString('base64');
-    const mimeType = mime.getType(imageUrl) || 'image/jpeg';
-    
-    // Initialize Gemini AI
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    });
-    
-    const result = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [
-        {
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: base64ImageData,
-              },
-            },
-            { 
-              text: "Analyze this disaster image for authenticity. Is it related to a real-world disaster? Does it show signs of digital manipulation or being AI-generated? Provide your analysis in JSON format with keys: is_authentic (boolean), disaster_context (string), confidence_score (number 0-1), raw_analysis (string)." 
-            }
-          ],
-        }
-      ],
-    });
-    
-    logger.info('Image verification response received');
-    if (!result || !result.text) {
-      throw new Error('Invalid response from Gemini AI');
-    }
-    logger.info('Parsed image verification result', { result: result.text });
-    const parsedResult = extractJsonFromResponse(result.text);
-
-    return parsedResult;
-    
+    hash = await imageHashService.computeHash(imageBuffer);
   } catch (error) {
-    logger.error('Error verifying image', { error: error.message, imageUrl });
-    throw error;
+    const unreadable = new Error(`Could not read the image: ${error.message}`);
+    unreadable.statusCode = 400;
+    throw unreadable;
+  }
+  const matches = await imageHashService.findSimilar(hash);
+  return { hash, matches: matches.map(toDuplicate) };
+}
+
+// Minimum confidence before an AI verdict is applied without a human looking at it
+const AUTO_DECISION_CONFIDENCE = 0.7;
+
+/**
+ * Map a verification result to a report verification_status.
+ * Results stored before the combined verdict may hold is_authentic and
+ * confidence_score as strings, so both are normalized here.
+ * @param {VerificationResult} result - Result from verifyImage/verifyImageSimple
+ * @returns {'verified'|'rejected'|'needs_review'}
+ */
+function toVerificationStatus(result) {
+  const isAuthentic = result?.is_authentic === true || String(result?.is_authentic).toLowerCase() === 'true';
+  const confidence = parseFloat(result?.confidence_score);
+
+  if (isNaN(confidence) || confidence < AUTO_DECISION_CONFIDENCE) {
+    return 'needs_review';
   }
+  return isAuthentic ? 'verified' : 'rejected';
 }
 
 export const verificationService = {
   verifyImage,
   verifyImageSimple,
+  findSimilarImages,
+  downloadImage,
+  toVerificationStatus,
 };
\ No newline at end of file
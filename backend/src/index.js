@@ -6,6 +6,8 @@ import http from 'http';
 import mainRouter from '../routes/index.js';
 import { errorHandler } from '../middleware/errorHandler.js';
 import { logger } from '../utils/logger.js';
+import { verificationQueueService } from '../services/verificationQueueService.js';
+import { socialMonitorService } from '../services/socialMonitorService.js';
 
 import  {extractAndGeocode}  from '../services/locationService.js';
 
@@ -15,7 +17,7 @@ const httpServer = http.createServer(app);
 // const result = extractAndGeocode("The earthquake in San Francisco caused significant damage to the Golden Gate Bridge.");
 // logger.info('Extracted and geocoded location:', { result });
 initSocketServer(httpServer);
-app.use(cors({origin: '*'})); // Allow all origins for development; restrict in production
+app.use(cors({origin: '*', exposedHeaders: ['X-Next-Cursor', 'X-Export-Truncated', 'Content-Disposition']})); // Allow all origins for development; restrict in production
 app.use(express.json());
 
 app.use('/api', mainRouter);
@@ -24,4 +26,6 @@ app.use(errorHandler);
 httpServer.listen(PORT, () => {
   logger.info(`Server is running on port ${PORT}`);
   logger.info(`Socket.IO server is listening on port ${PORT}`);
+  verificationQueueService.start();
+  socialMonitorService.start();
 });
\ No newline at end of file
@@ -0,0 +1,230 @@
+// src/utils/imageMetadata.js
+
+// Standard JPEG luminance quantization table (quality 50), from Annex K of the spec
+const STANDARD_LUMINANCE_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+const STANDARD_LUMINANCE_SUM = STANDARD_LUMINANCE_TABLE.reduce((sum, value) => sum + value, 0);
+
+// EXIF tags read from IFD0, the Exif sub-IFD and the GPS IFD
+const TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  SOFTWARE: 0x0131,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// JPEG start-of-frame markers, which carry the image dimensions
+const SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * Read the IFD entries of a TIFF structure (the body of an EXIF segment).
+ * Returns tag -> value, where ASCII values are strings, rationals numbers and
+ * anything with several values an array.
+ */
+const readIfd = (tiff, offset, littleEndian) => {
+  const u16 = (at) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+  const i32 = (at) => (littleEndian ? tiff.readInt32LE(at) : tiff.readInt32BE(at));
+
+  const entries = {};
+  if (offset + 2 > tiff.length) return entries;
+  const count = u16(offset);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const n = u32(entry + 4);
+    const size = (TYPE_SIZES[type] || 0) * n;
+    if (!size) continue;
+    const valueAt = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (valueAt + size > tiff.length) continue;
+
+    const values = [];
+    for (let k = 0; k < n && type !== 2; k++) {
+      const at = valueAt + k * TYPE_SIZES[type];
+      if (type === 3) values.push(u16(at));
+      else if (type === 4) values.push(u32(at));
+      else if (type === 9) values.push(i32(at));
+      else if (type === 5) values.push(u32(at + 4) ? u32(at) / u32(at + 4) : 0);
+      else if (type === 10) values.push(i32(at + 4) ? i32(at) / i32(at + 4) : 0);
+      else values.push(tiff[at]);
+    }
+    entries[tag] = type === 2
+      ? tiff.toString('latin1', valueAt, valueAt + size).replace(/\0+$/, '').trim()
+      : (values.length === 1 ? values[0] : values);
+  }
+  return entries;
+};
+
+// EXIF dates look like "2024:05:01 14:03:22", with the UTC offset in a separate tag
+const parseExifDate = (value, offset) => {
+  const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : { iso: date.toISOString(), hasTimezone: zone !== 'Z' };
+};
+
+const toDegrees = (dms, ref) => {
+  if (!Array.isArray(dms) || dms.length < 3) return null;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+/**
+ * Parse the TIFF body of an EXIF block.
+ * @returns {{make?: string, model?: string, software?: string, captureTime?: string, captureTimeHasTimezone?: boolean, gps?: {latitude: number, longitude: number}}}
+ */
+const parseExif = (tiff) => {
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+  const littleEndian = byteOrder === 'II';
+  const ifd0Offset = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+
+  const ifd0 = readIfd(tiff, ifd0Offset, littleEndian);
+  const exifIfd = ifd0[TAGS.EXIF_IFD] ? readIfd(tiff, ifd0[TAGS.EXIF_IFD], littleEndian) : {};
+  const gpsIfd = ifd0[TAGS.GPS_IFD] ? readIfd(tiff, ifd0[TAGS.GPS_IFD], littleEndian) : {};
+
+  const capture = parseExifDate(exifIfd[TAGS.DATE_TIME_ORIGINAL], exifIfd[TAGS.OFFSET_TIME_ORIGINAL])
+    || parseExifDate(ifd0[TAGS.DATE_TIME]);
+  const latitude = toDegrees(gpsIfd[TAGS.GPS_LATITUDE], gpsIfd[TAGS.GPS_LATITUDE_REF]);
+  const longitude = toDegrees(gpsIfd[TAGS.GPS_LONGITUDE], gpsIfd[TAGS.GPS_LONGITUDE_REF]);
+  const hasGps = Number.isFinite(latitude) && Number.isFinite(longitude) && !(latitude === 0 && longitude === 0);
+
+  return {
+    make: ifd0[TAGS.MAKE] || undefined,
+    model: ifd0[TAGS.MODEL] || undefined,
+    software: ifd0[TAGS.SOFTWARE] || undefined,
+    captureTime: capture?.iso,
+    captureTimeHasTimezone: capture?.hasTimezone,
+    gps: hasGps ? { latitude, longitude } : undefined,
+  };
+};
+
+// Estimate JPEG quality (1-100) from the luminance table, using the IJG scaling formula in reverse
+const estimateJpegQuality = (table) => {
+  const scale = (100 * table.reduce((sum, value) => sum + value, 0)) / STANDARD_LUMINANCE_SUM;
+  const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+  return Math.max(1, Math.min(100, Math.round(quality)));
+};
+
+const readJpeg = (buffer) => {
+  const info = { format: 'jpeg' };
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) break;
+    const marker = buffer[offset + 1];
+    // Markers without a length
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan: the compressed image data follows, nothing more to read
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const segment = buffer.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+      info.exif = parseExif(segment.subarray(6));
+    } else if (marker === 0xdb) {
+      // A DQT segment can hold several tables; table 0 is luminance
+      let at = 0;
+      while (at < segment.length) {
+        const precision = segment[at] >> 4;
+        const id = segment[at] & 0x0f;
+        const size = precision ? 128 : 64;
+        const table = [];
+        for (let k = 0; k < 64 && at + 1 + k * (precision ? 2 : 1) < segment.length; k++) {
+          table.push(precision ? segment.readUInt16BE(at + 1 + k * 2) : segment[at + 1 + k]);
+        }
+        if (id === 0 && table.length === 64) info.quality = estimateJpegQuality(table);
+        at += 1 + size;
+      }
+    } else if (SOF_MARKERS.has(marker) && segment.length >= 5) {
+      info.height = segment.readUInt16BE(1);
+      info.width = segment.readUInt16BE(3);
+    }
+    offset += 2 + length;
+  }
+  return info;
+};
+
+const readPng = (buffer) => {
+  const info = { format: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20), textKeys: [] };
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (type === 'tEXt' || type === 'iTXt') {
+      const data = buffer.subarray(offset + 8, Math.min(offset + 8 + length, buffer.length));
+      const separator = data.indexOf(0);
+      const key = data.toString('latin1', 0, separator === -1 ? data.length : separator);
+      info.textKeys.push(key);
+      if (key === 'Software' && type === 'tEXt') info.exif = { ...(info.exif || {}), software: data.toString('latin1', separator + 1).trim() };
+    } else if (type === 'eXIf') {
+      info.exif = { ...parseExif(buffer.subarray(offset + 8, offset + 8 + length)), ...(info.exif || {}) };
+    } else if (type === 'IDAT' || type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return info;
+};
+
+const readWebp = (buffer) => {
+  const chunk = buffer.toString('latin1', 12, 16);
+  if (chunk === 'VP8X') {
+    return { format: 'webp', width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+  }
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return { format: 'webp', width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+  }
+  return { format: 'webp', width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+};
+
+/**
+ * Sniff the format of an image and read what the forensics checks need from
+ * its headers: dimensions, JPEG quality and EXIF fields. Pixel data is never
+ * decoded. Files too malformed to read are reported as an unknown format.
+ *
+ * @param {Buffer} buffer
+ * @returns {{format: 'jpeg'|'png'|'gif'|'webp'|'unknown', width?: number, height?: number, quality?: number, textKeys?: string[], exif?: Object|null}}
+ */
+export const readImageMetadata = (buffer) => {
+  try {
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) return readJpeg(buffer);
+    if (buffer.length >= 24 && buffer.toString('latin1', 1, 4) === 'PNG') return readPng(buffer);
+    if (buffer.length >= 10 && buffer.toString('latin1', 0, 3) === 'GIF') {
+      return { format: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+    if (buffer.length >= 30 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+      return readWebp(buffer);
+    }
+  } catch {
+    // Reads past the end of a truncated file; fall through to an unknown format
+  }
+  return { format: 'unknown' };
+};
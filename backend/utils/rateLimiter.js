@@ -0,0 +1,54 @@
+// src/utils/rateLimiter.js
+
+/**
+ * Serializes calls so that they start at least `minIntervalMs` apart,
+ * queueing bursts in FIFO order. Calls beyond `maxQueueDepth` waiting are
+ * rejected straight away rather than left to wait for minutes.
+ *
+ * @param {{name: string, minIntervalMs: number, maxQueueDepth: number}} options
+ */
+export const createRateLimiter = ({ name, minIntervalMs, maxQueueDepth }) => {
+  const queue = [];
+  let lastStartedAt = 0;
+  let timer = null;
+  const stats = { processed: 0, rejected: 0, peakQueueDepth: 0 };
+
+  const drain = () => {
+    timer = null;
+    if (queue.length === 0) return;
+
+    const wait = lastStartedAt + minIntervalMs - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(drain, wait);
+      return;
+    }
+
+    const { task, resolve, reject } = queue.shift();
+    lastStartedAt = Date.now();
+    stats.processed++;
+    Promise.resolve().then(task).then(resolve, reject);
+    if (queue.length > 0) timer = setTimeout(drain, minIntervalMs);
+  };
+
+  return {
+    /**
+     * Run `task` once the rate limit allows it.
+     * @template T
+     * @param {() => Promise<T>} task
+     * @returns {Promise<T>}
+     */
+    schedule: (task) => {
+      if (queue.length >= maxQueueDepth) {
+        stats.rejected++;
+        return Promise.reject(new Error(`${name} rate limit queue is full (${maxQueueDepth} waiting).`));
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ task, resolve, reject });
+        stats.peakQueueDepth = Math.max(stats.peakQueueDepth, queue.length);
+        if (!timer) drain();
+      });
+    },
+
+    getStats: () => ({ name, minIntervalMs, maxQueueDepth, queueDepth: queue.length, ...stats }),
+  };
+};
@@ -0,0 +1,214 @@
+// src/utils/safeFetch.js
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+
+const FETCH_CONFIG = {
+  timeoutMs: parseInt(process.env.FETCH_TIMEOUT_MS || '15000', 10),
+  maxBytes: parseInt(process.env.FETCH_MAX_BYTES || String(10 * 1024 * 1024), 10),
+  maxRedirects: parseInt(process.env.FETCH_MAX_REDIRECTS || '3', 10),
+  userAgent: process.env.FETCH_USER_AGENT || 'disaster-response-api',
+  // Hosts trusted even on a private network, e.g. a self-hosted Supabase storage server
+  allowedHosts: [
+    ...(process.env.FETCH_ALLOWED_HOSTS || '').split(','),
+    process.env.SUPABASE_URL ? new URL(process.env.SUPABASE_URL).hostname : '',
+  ].map(host => host.trim().toLowerCase()).filter(Boolean),
+};
+
+// Addresses a request from the server must never reach: loopback, private
+// networks, link-local (including cloud metadata at 169.254.169.254), CGNAT,
+// multicast, and reserved or documentation ranges. ::/96 holds the unspecified
+// and loopback addresses and the deprecated IPv4-compatible ones (::127.0.0.1)
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// File signatures of the image types we accept
+const IMAGE_SIGNATURES = [
+  { mimeType: 'image/jpeg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mimeType: 'image/png', matches: (b) => b.toString('latin1', 0, 8) === '\x89PNG\r\n\x1a\n' },
+  { mimeType: 'image/gif', matches: (b) => b.toString('latin1', 0, 4) === 'GIF8' },
+  { mimeType: 'image/webp', matches: (b) => b.toString('latin1', 0, 4) === 'RIFF' && b.toString('latin1', 8, 12) === 'WEBP' },
+  { mimeType: 'image/bmp', matches: (b) => b.toString('latin1', 0, 2) === 'BM' },
+  { mimeType: 'image/heic', matches: (b) => b.toString('latin1', 4, 8) === 'ftyp' && /^(heic|heix|mif1|msf1)$/.test(b.toString('latin1', 8, 12)) },
+  { mimeType: 'image/avif', matches: (b) => b.toString('latin1', 4, 12) === 'ftypavif' },
+];
+
+// Declared types that say nothing about the content, so the signature decides
+const GENERIC_CONTENT_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+const fetchError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  // Retrying the same URL gives the same answer
+  error.permanent = true;
+  return error;
+};
+
+const isBlockedAddress = (address) => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  if (family === 6 && address.toLowerCase().startsWith('::ffff:')) {
+    // IPv4-mapped IPv6 addresses reach the IPv4 host
+    const mapped = address.slice('::ffff:'.length);
+    if (net.isIPv4(mapped)) return BLOCKED_ADDRESSES.check(mapped, 'ipv4');
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isAllowedHost = (hostname) => FETCH_CONFIG.allowedHosts.includes(hostname.toLowerCase());
+
+// DNS lookup used for the connection itself, so the address that was checked
+// is the one connected to (a second lookup could be answered differently)
+const guardedLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const blocked = !isAllowedHost(hostname) && addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(fetchError(`Refusing to fetch ${hostname}: it resolves to a private or reserved address.`));
+    }
+    if (addresses.length === 0) return callback(fetchError(`Could not resolve ${hostname}.`));
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const parseTarget = (rawUrl, base) => {
+  let url;
+  try {
+    url = new URL(rawUrl, base);
+  } catch {
+    throw fetchError('Invalid URL.');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw fetchError('Only http and https URLs can be fetched.');
+  if (url.username || url.password) throw fetchError('URLs with credentials cannot be fetched.');
+
+  // IP literals skip DNS, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host) && !isAllowedHost(host)) {
+    throw fetchError(`Refusing to fetch ${host}: it is a private or reserved address.`);
+  }
+  return url;
+};
+
+// One request, without following redirects
+const request = (url, { headers, maxBytes, signal }) => new Promise((resolve, reject) => {
+  const client = url.protocol === 'https:' ? https : http;
+  const req = client.get(url, { headers, lookup: guardedLookup, signal }, (res) => {
+    const { statusCode } = res;
+    if (statusCode >= 300 && statusCode < 400 && res.headers.location) {
+      res.resume();
+      return resolve({ statusCode, location: res.headers.location });
+    }
+
+    const declaredLength = parseInt(res.headers['content-length'] || '0', 10);
+    if (declaredLength > maxBytes) {
+      res.destroy();
+      return reject(fetchError(`Response is larger than the ${maxBytes} byte limit.`, 413));
+    }
+
+    const chunks = [];
+    let received = 0;
+    res.on('data', (chunk) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        res.destroy();
+        reject(fetchError(`Response is larger than the ${maxBytes} byte limit.`, 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    res.on('end', () => resolve({
+      statusCode,
+      headers: res.headers,
+      body: Buffer.concat(chunks),
+    }));
+    res.on('error', reject);
+  });
+  req.on('error', reject);
+});
+
+/**
+ * Fetch a URL given by a client without letting it reach internal services
+ * or exhaust memory: only http(s), no private or reserved addresses (checked
+ * on the resolved IP, for every redirect), a redirect limit, a size cap and
+ * an overall timeout.
+ *
+ * @param {string} rawUrl
+ * @param {{maxBytes?: number, timeoutMs?: number, maxRedirects?: number, headers?: Object}} [options]
+ * @returns {Promise<{url: string, statusCode: number, headers: Object, body: Buffer}>} url is the final URL after redirects
+ * @throws {Error} with statusCode and `permanent` for refused URLs, over-size responses and HTTP errors
+ */
+export const safeFetch = async (rawUrl, {
+  maxBytes = FETCH_CONFIG.maxBytes,
+  timeoutMs = FETCH_CONFIG.timeoutMs,
+  maxRedirects = FETCH_CONFIG.maxRedirects,
+  headers = {},
+} = {}) => {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const requestHeaders = { 'User-Agent': FETCH_CONFIG.userAgent, ...headers };
+  let url = parseTarget(rawUrl);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await request(url, { headers: requestHeaders, maxBytes, signal });
+      if (response.location) {
+        if (redirects >= maxRedirects) throw fetchError(`Too many redirects (more than ${maxRedirects}).`);
+        url = parseTarget(response.location, url);
+        continue;
+      }
+      if (response.statusCode < 200 || response.statusCode >= 300) {
+        const error = fetchError(`Fetching ${url.hostname} failed with HTTP ${response.statusCode}.`, 502);
+        // Server errors and rate limiting may pass, so those can be retried
+        error.permanent = response.statusCode < 500 && response.statusCode !== 429;
+        throw error;
+      }
+      return { url: url.toString(), statusCode: response.statusCode, headers: response.headers, body: response.body };
+    }
+  } catch (err) {
+    if (signal.aborted) {
+      const timeout = fetchError(`Fetching ${url.hostname} timed out after ${timeoutMs} ms.`, 504);
+      timeout.permanent = false;
+      throw timeout;
+    }
+    throw err;
+  }
+};
+
+/**
+ * Detect an image type from the first bytes of the file.
+ * @param {Buffer} buffer
+ * @returns {string|null} MIME type, or null when it is not a supported image
+ */
+export const detectImageType = (buffer) =>
+  (buffer.length >= 12 && IMAGE_SIGNATURES.find(signature => signature.matches(buffer))?.mimeType) || null;
+
+/**
+ * Fetch an image with safeFetch and make sure it is one: the file signature
+ * must be a supported image type and agree with the declared Content-Type.
+ *
+ * @param {string} rawUrl
+ * @param {{maxBytes?: number, timeoutMs?: number, maxRedirects?: number}} [options]
+ * @returns {Promise<{url: string, buffer: Buffer, mimeType: string}>}
+ */
+export const fetchImage = async (rawUrl, options = {}) => {
+  const response = await safeFetch(rawUrl, { ...options, headers: { Accept: 'image/*' } });
+  const declared = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const detected = detectImageType(response.body);
+
+  if (!detected) throw fetchError('The URL does not point to a supported image (JPEG, PNG, GIF, WebP, BMP, HEIC or AVIF).', 415);
+  // image/jpg is a common misspelling of image/jpeg
+  const normalizedDeclared = declared === 'image/jpg' ? 'image/jpeg' : declared;
+  if (!GENERIC_CONTENT_TYPES.includes(normalizedDeclared) && normalizedDeclared !== detected) {
+    throw fetchError(`The server says the file is ${declared}, but its content is ${detected}.`, 415);
+  }
+  return { url: response.url, buffer: response.body, mimeType: detected };
+};
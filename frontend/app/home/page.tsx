@@ -1,10 +1,16 @@
 "use client";
 import { useEffect, useState, Suspense } from "react";
 import dynamic from "next/dynamic";
-import { FilePlus, AlertTriangle, ListOrdered, Newspaper, User, LogOut, MapPin } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { FilePlus, AlertTriangle, ListOrdered, Newspaper, User, LogOut, MapPin, ShieldCheck, TrendingUp } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import CreateDisasterForm from "@/components/createDisaster";
+import CreateReportForm from "@/components/createReport";
 import OfficialUpdatesFeed from "@/components/OfficialUpdatesFeed";
+import ModerationPanel from "@/components/ModerationPanel";
+import TrendingPanel from "@/components/TrendingPanel";
+import { getSessionUser, hasPermission, logout, SessionUser } from "@/lib/userSession";
+import { disconnectSocket } from "@/lib/socket";
 
 const LeafletMap = dynamic(() => import("@/components/LeafletMap"), { ssr: false });
 
@@ -12,6 +18,7 @@ const menuItems = [
   {
     title: "Create Disaster",
     url: "/disaster/create",
+    permission: "disaster:create",
     icon: FilePlus,
     gradient: "from-emerald-500 to-teal-600",
     hoverGradient: "from-emerald-600 to-teal-700",
@@ -20,6 +27,7 @@ const menuItems = [
   {
     title: "Report Disaster",
     url: "/disaster/report",
+    permission: "report:create",
     icon: AlertTriangle,
     gradient: "from-amber-500 to-orange-600",
     hoverGradient: "from-amber-600 to-orange-700",
@@ -41,21 +49,58 @@ const menuItems = [
     hoverGradient: "from-purple-600 to-pink-700",
     description: "Latest news updates"
   },
+  {
+    title: "Moderation Queue",
+    url: "/reports/queue",
+    permission: "report:verify",
+    icon: ShieldCheck,
+    gradient: "from-rose-500 to-red-600",
+    hoverGradient: "from-rose-600 to-red-700",
+    description: "Review citizen reports"
+  },
+  {
+    title: "Trending Topics",
+    url: "/social/trending",
+    permission: "social:trends:view",
+    icon: TrendingUp,
+    gradient: "from-cyan-500 to-sky-600",
+    hoverGradient: "from-cyan-600 to-sky-700",
+    description: "Spot incidents on social media"
+  },
 ];
 
 export default function HomeMapPage() {
-  const [userId, setUserId] = useState<string | null>(null);
+  const router = useRouter();
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const [showHeadlinesDialog, setShowHeadlinesDialog] = useState(false);
+  const [showModerationDialog, setShowModerationDialog] = useState(false);
+  const [showTrendingDialog, setShowTrendingDialog] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const cachedUser = localStorage.getItem("userId");
-    setUserId(cachedUser);
+    setUser(getSessionUser());
     // Simulate loading delay for better UX
     setTimeout(() => setIsLoading(false), 800);
   }, []);
 
+  // Menu items that open a dialog instead of navigating
+  const dialogOpeners: Record<string, () => void> = {
+    "Create Disaster": () => setShowCreateDialog(true),
+    "Report Disaster": () => setShowReportDialog(true),
+    "Show Headlines": () => setShowHeadlinesDialog(true),
+    "Moderation Queue": () => setShowModerationDialog(true),
+    "Trending Topics": () => setShowTrendingDialog(true),
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    disconnectSocket();
+    setUser(null);
+    router.push("/");
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900 flex items-center justify-center">
@@ -94,7 +139,7 @@ export default function HomeMapPage() {
               </div>
             </div>
             
-            {userId && (
+            {user && (
               <div className="flex items-center space-x-4">
                 <div className="bg-white/10 backdrop-blur-md rounded-full px-4 py-2 border border-white/20">
                   <div className="flex items-center space-x-3">
@@ -102,12 +147,12 @@ export default function HomeMapPage() {
                       <User className="w-4 h-4 text-white" />
                     </div>
                     <div>
-                      <p className="text-sm text-white font-medium">{userId}</p>
-                      <p className="text-xs text-blue-300">Online</p>
+                      <p className="text-sm text-white font-medium">{user.username}</p>
+                      <p className="text-xs text-blue-300">{user.role}</p>
                     </div>
                   </div>
                 </div>
-                <button className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200">
+                <button onClick={handleLogout} aria-label="Log out" className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200">
                   <LogOut className="w-5 h-5" />
                 </button>
               </div>
@@ -126,7 +171,7 @@ export default function HomeMapPage() {
             </div>
           </div>
         }>
-          {userId ? (
+          {user ? (
             <div className="h-[calc(100vh-120px)] relative">
               <LeafletMap />
               {/* Map overlay gradient */}
@@ -140,7 +185,7 @@ export default function HomeMapPage() {
                 </div>
                 <h3 className="text-xl font-bold text-white mb-2">Authentication Required</h3>
                 <p className="text-red-300 mb-4">Please log in to access the disaster management system</p>
-                <button className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-2 rounded-lg hover:shadow-lg transform hover:scale-105 transition-all duration-200">
+                <button onClick={() => router.push("/")} className="bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-2 rounded-lg hover:shadow-lg transform hover:scale-105 transition-all duration-200">
                   Login Now
                 </button>
               </div>
@@ -151,42 +196,11 @@ export default function HomeMapPage() {
 
       {/* Floating Action Menu */}
       <div className="fixed left-8 top-1/2 transform -translate-y-1/2 z-50 space-y-4">
-        {menuItems.map((item, index) => (
-          item.title === "Create Disaster" ? (
-            <div key={item.title} className="group relative">
-              <button
-                onClick={() => setShowCreateDialog(true)}
-                className={`
-                  relative overflow-hidden w-16 h-16 rounded-2xl shadow-2xl
-                  bg-gradient-to-r ${item.gradient} hover:${item.hoverGradient}
-                  transform hover:scale-110 transition-all duration-300 ease-out
-                  border border-white/20 backdrop-blur-xl
-                  focus:outline-none focus:ring-4 focus:ring-white/30
-                  animate-fade-in-left
-                `}
-                style={{ animationDelay: `${index * 100}ms` }}
-                aria-label={item.title}
-              >
-                <div className="absolute inset-0 bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                <item.icon className="w-8 h-8 text-white relative z-10 mx-auto" />
-                
-                {/* Ripple effect */}
-                <div className="absolute inset-0 rounded-2xl bg-white/20 scale-0 group-active:scale-100 transition-transform duration-150"></div>
-              </button>
-              
-              {/* Enhanced tooltip */}
-              <div className="absolute left-20 top-1/2 transform -translate-y-1/2 opacity-0 group-hover:opacity-100 group-hover:translate-x-2 transition-all duration-300 pointer-events-none">
-                <div className="bg-white/95 backdrop-blur-xl rounded-xl p-4 shadow-2xl border border-white/20 min-w-48">
-                  <h4 className="font-bold text-gray-800 mb-1">{item.title}</h4>
-                  <p className="text-sm text-gray-600">{item.description}</p>
-                  <div className="absolute left-0 top-1/2 transform -translate-y-1/2 -translate-x-1 w-3 h-3 bg-white/95 rotate-45 border-l border-b border-white/20"></div>
-                </div>
-              </div>
-            </div>
-          ) : item.title === "Show Headlines" ? (
+        {menuItems.filter((item) => !item.permission || hasPermission(item.permission)).map((item, index) => (
+          dialogOpeners[item.title] ? (
             <div key={item.title} className="group relative">
               <button
-                onClick={() => setShowHeadlinesDialog(true)}
+                onClick={dialogOpeners[item.title]}
                 className={`
                   relative overflow-hidden w-16 h-16 rounded-2xl shadow-2xl
                   bg-gradient-to-r ${item.gradient} hover:${item.hoverGradient}
@@ -259,6 +273,16 @@ export default function HomeMapPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Citizen Report Dialog */}
+      <Dialog open={showReportDialog} onOpenChange={setShowReportDialog}>
+        <DialogContent className="max-w-2xl bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl">
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-amber-500 to-orange-600 bg-clip-text text-transparent">
+            Submit a Citizen Report
+          </DialogTitle>
+          <CreateReportForm onSuccess={() => setShowReportDialog(false)} />
+        </DialogContent>
+      </Dialog>
+
       {/* Headlines Dialog */}
       <Dialog open={showHeadlinesDialog} onOpenChange={setShowHeadlinesDialog}>
         <DialogContent className="max-w-2xl bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl">
@@ -269,6 +293,26 @@ export default function HomeMapPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Moderation Queue Dialog */}
+      <Dialog open={showModerationDialog} onOpenChange={setShowModerationDialog}>
+        <DialogContent className="max-w-3xl bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl">
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-rose-500 to-red-600 bg-clip-text text-transparent">
+            Moderation Queue
+          </DialogTitle>
+          {showModerationDialog && <ModerationPanel />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Trending Topics Dialog */}
+      <Dialog open={showTrendingDialog} onOpenChange={setShowTrendingDialog}>
+        <DialogContent className="max-w-3xl bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl">
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-cyan-500 to-sky-600 bg-clip-text text-transparent">
+            Trending Topics
+          </DialogTitle>
+          {showTrendingDialog && <TrendingPanel />}
+        </DialogContent>
+      </Dialog>
+
       {/* Custom CSS for animations */}
       <style jsx>{`
         @keyframes fade-in-left {
@@ -1,11 +1,45 @@
 import { useEffect, useState } from 'react';
-import { Loader2 } from 'lucide-react';
+import { Loader2, MapPin, Search, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"; // Import Dialog parts for structure
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { authFetch, hasPermission } from '@/lib/userSession';
+import { usePresence, useRealtime } from '@/hooks/use-realtime';
+import { RealtimeEvent } from '@/lib/socket';
+import SocialSearchTermsEditor from '@/components/SocialSearchTermsEditor';
 
 // --- (Interfaces for Report and SocialMediaPost remain the same) ---
-interface Report { id: number; created_at: string; user_id: string; content: string; image_url?: string; verification_status?: string; }
-interface SocialMediaPost { id: string; post: string; user: string; userDisplayName: string; userAvatar?: string; timestamp: string; platform: string; url: string; }
+interface Report { id: number; created_at: string; disaster_id: number; user_id: string; content: string; image_url?: string; verification_status?: string; }
+type PostCategory = 'need_help' | 'offering_help' | 'damage_report' | 'infrastructure_status' | 'misinformation' | 'irrelevant';
+type PostUrgency = 'critical' | 'high' | 'medium' | 'low';
+interface PostExtracted { phones: string[]; addresses: { text: string; latitude?: number; longitude?: number }[]; places: { name: string; latitude?: number; longitude?: number }[]; }
+interface SocialMediaPost { id: string; post: string; user: string; userDisplayName: string; userAvatar?: string; timestamp: string; platform: string; url: string; alsoSeenOn?: string[]; category?: PostCategory; urgency?: PostUrgency; extracted?: PostExtracted; source?: PostSource; }
+type PostSource = 'live' | 'cached' | 'mock';
+interface SocialMediaResult { posts: SocialMediaPost[]; source: PostSource | 'mixed' | 'none'; failedConnectors: string[]; isMockData: boolean; }
+
+const CATEGORY_STYLES: Record<PostCategory, { label: string; className: string }> = {
+  need_help: { label: 'Needs help', className: 'bg-red-100 text-red-700 border-red-300' },
+  offering_help: { label: 'Offering help', className: 'bg-green-100 text-green-700 border-green-300' },
+  damage_report: { label: 'Damage', className: 'bg-orange-100 text-orange-700 border-orange-300' },
+  infrastructure_status: { label: 'Infrastructure', className: 'bg-blue-100 text-blue-700 border-blue-300' },
+  misinformation: { label: 'Possible misinformation', className: 'bg-purple-100 text-purple-700 border-purple-300' },
+  irrelevant: { label: 'Irrelevant', className: 'bg-gray-100 text-gray-600 border-gray-300' },
+};
+
+// Posts without a source came from the archive
+const SOURCE_STYLES: Record<PostSource, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'text-green-700' },
+  cached: { label: 'Cached', className: 'text-gray-500' },
+  mock: { label: 'Sample', className: 'text-amber-700 font-semibold' },
+};
+
+const URGENCY_STYLES: Record<PostUrgency, string> = {
+  critical: 'text-red-700 font-semibold',
+  high: 'text-orange-700 font-semibold',
+  medium: 'text-yellow-700',
+  low: 'text-gray-500',
+};
 
 // --- We no longer need the 'onClose' prop ---
 interface DetailedInsightProps {
@@ -15,27 +49,71 @@ interface DetailedInsightProps {
 export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
   const [reports, setReports] = useState<Report[]>([]);
   const [socialMediaPosts, setSocialMediaPosts] = useState<SocialMediaPost[]>([]);
+  const [failedConnectors, setFailedConnectors] = useState<string[]>([]);
+  const [isMockData, setIsMockData] = useState(false);
+  // Bumped when the search terms change, to search again
+  const [searchVersion, setSearchVersion] = useState(0);
+  // Archive search: null while showing the feed, otherwise the matching stored posts
+  const [archiveQuery, setArchiveQuery] = useState('');
+  const [archiveResults, setArchiveResults] = useState<SocialMediaPost[] | null>(null);
+  const [archiveLoading, setArchiveLoading] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState<PostCategory | 'all'>('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
 
+  // The socket is shared with the map, so events for other disasters can arrive here too
+  const isForThisDisaster = (id: string | number) => String(id) === String(disasterId);
+  // Rejected reports arrive as a DELETE for users who may not see them
+  const upsertReport = ({ type, payload }: RealtimeEvent<Report>) => {
+    if (!isForThisDisaster(payload.disaster_id)) return;
+    if (type === 'DELETE' || (payload.verification_status === 'rejected' && !hasPermission('report:view:hidden'))) {
+      setReports(current => current.filter(r => r.id !== payload.id));
+      return;
+    }
+    setReports(current => current.some(r => r.id === payload.id)
+      ? current.map(r => r.id === payload.id ? payload : r)
+      : [payload, ...current]);
+  };
+
+  useRealtime('insight', { disasterIds: [disasterId] }, {
+    report_created: upsertReport,
+    report_verified: upsertReport,
+    report_reviewed: upsertReport,
+    social_post_created: ({ payload }: RealtimeEvent<SocialMediaPost & { disaster_id: number }>) => {
+      if (!isForThisDisaster(payload.disaster_id)) return;
+      setSocialMediaPosts(current => current.some(p => p.id === payload.id) ? current : [payload, ...current]);
+    },
+  });
+
+  const canViewPresence = hasPermission('presence:view');
+  const onlineUsers = usePresence(disasterId, canViewPresence);
+  const canManageSearch = hasPermission('social:search:manage');
+
   useEffect(() => {
     if (!disasterId) return;
     setLoading(true);
     setError(null);
     Promise.all([
-      fetch(`${API_URL}/reports/${disasterId}`),
-      fetch(`${API_URL}/disasters/${disasterId}/social-media`)
+      // Signed in so that privileged users also see rejected reports
+      authFetch(`${API_URL}/reports/${disasterId}`),
+      fetch(`${API_URL}/disasters/${disasterId}/social-media`),
+      // Posts stored by the background monitor; the live search fills in until it has run
+      fetch(`${API_URL}/disasters/${disasterId}/social-posts`)
     ])
-      .then(async ([reportRes, socialRes]) => {
+      .then(async ([reportRes, socialRes, archiveRes]) => {
         if (!reportRes.ok) throw new Error(`Failed to fetch citizen reports`);
         if (!socialRes.ok) throw new Error(`Failed to fetch social media posts`);
 
         const reportsData: Report[] = await reportRes.json();
-        const socialMediaData: SocialMediaPost[] = await socialRes.json();
+        const { posts: livePosts, failedConnectors, isMockData }: SocialMediaResult = await socialRes.json();
+        const storedPosts: SocialMediaPost[] = archiveRes.ok ? await archiveRes.json() : [];
+        const socialMediaData = [...storedPosts, ...livePosts.filter(post => !storedPosts.some(p => p.id === post.id))];
 
         setReports(reportsData);
         setSocialMediaPosts(socialMediaData);
+        setFailedConnectors(failedConnectors);
+        setIsMockData(isMockData);
         
         if (reportsData.length === 0 && socialMediaData.length === 0) {
           toast.info("No detailed reports or social media activity found.");
@@ -48,7 +126,35 @@ export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
       .finally(() => {
         setLoading(false);
       });
-  }, [disasterId, API_URL]);
+  }, [disasterId, API_URL, searchVersion]);
+
+  const searchArchive = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const q = archiveQuery.trim();
+    if (!q) {
+      setArchiveResults(null);
+      return;
+    }
+    setArchiveLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/disasters/${disasterId}/social-posts?${new URLSearchParams({ q, limit: '100' })}`);
+      if (!res.ok) throw new Error('Failed to search the social media archive');
+      setArchiveResults(await res.json());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Archive search failed');
+    } finally {
+      setArchiveLoading(false);
+    }
+  };
+
+  const clearArchiveSearch = () => {
+    setArchiveQuery('');
+    setArchiveResults(null);
+  };
+
+  const unfilteredPosts = archiveResults ?? socialMediaPosts;
+  const shownPosts = categoryFilter === 'all' ? unfilteredPosts : unfilteredPosts.filter(post => post.category === categoryFilter);
+  const categoryCount = (category: PostCategory) => unfilteredPosts.filter(post => post.category === category).length;
 
   // The component now returns its content directly, without any modal wrapper
   return (
@@ -58,6 +164,15 @@ export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
         <DialogDescription>
           Live citizen reports and social media mentions for disaster ID: {disasterId}.
         </DialogDescription>
+        {canViewPresence && (
+          <p className="text-sm text-gray-600">
+            <span className="inline-block w-2 h-2 bg-green-500 rounded-full mr-2" />
+            Online now ({onlineUsers.length}):{' '}
+            {onlineUsers.length > 0
+              ? onlineUsers.map(u => `${u.username} (${u.role})`).join(', ')
+              : 'no one is working on this incident'}
+          </p>
+        )}
       </DialogHeader>
 
       <div className="mt-4 h-[70vh] flex flex-col"> {/* Fixed height for content area */}
@@ -82,6 +197,9 @@ export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
                       {report.verification_status === "verified" && (
                         <span className="ml-2 px-2 py-0.5 text-xs font-semibold bg-green-100 text-green-700 rounded-full border border-green-300">Verified</span>
                       )}
+                      {report.verification_status === "rejected" && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold bg-red-100 text-red-700 rounded-full border border-red-300">Rejected</span>
+                      )}
                     </div>
                     {report.image_url && (
                       // eslint-disable-next-line @next/next/no-img-element
@@ -99,9 +217,49 @@ export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
 
             {/* Social Media Section */}
             <section className="flex flex-col overflow-hidden">
-              <h3 className="text-xl font-semibold text-gray-700 mb-3">Social Media Mentions ({socialMediaPosts.length})</h3>
+              <h3 className="text-xl font-semibold text-gray-700 mb-3">
+                {archiveResults ? `Archive Matches (${archiveResults.length})` : `Social Media Mentions (${socialMediaPosts.length})`}
+              </h3>
+              {canManageSearch && (
+                <SocialSearchTermsEditor disasterId={disasterId} onSaved={() => setSearchVersion(version => version + 1)} />
+              )}
+              <form onSubmit={searchArchive} className="flex gap-2 mb-2">
+                <Input
+                  value={archiveQuery}
+                  onChange={e => setArchiveQuery(e.target.value)}
+                  placeholder="Search all stored posts..."
+                />
+                <Button type="submit" size="icon" variant="outline" disabled={archiveLoading} aria-label="Search archive">
+                  {archiveLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                </Button>
+                {archiveResults && (
+                  <Button type="button" size="icon" variant="ghost" onClick={clearArchiveSearch} aria-label="Clear search">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </form>
+              <div className="flex flex-wrap gap-1 mb-2">
+                <Button size="sm" variant={categoryFilter === 'all' ? 'default' : 'outline'} onClick={() => setCategoryFilter('all')}>
+                  All ({unfilteredPosts.length})
+                </Button>
+                {(Object.keys(CATEGORY_STYLES) as PostCategory[]).map(category => (
+                  <Button key={category} size="sm" variant={categoryFilter === category ? 'default' : 'outline'} onClick={() => setCategoryFilter(category)}>
+                    {CATEGORY_STYLES[category].label} ({categoryCount(category)})
+                  </Button>
+                ))}
+              </div>
+              {isMockData && !archiveResults && (
+                <p className="text-xs text-amber-700 font-semibold mb-2">
+                  No live posts were found, so sample posts are shown. They are not real reports.
+                </p>
+              )}
+              {failedConnectors.length > 0 && (
+                <p className="text-xs text-amber-700 mb-2">
+                  Some sources could not be searched: {failedConnectors.join(', ')}
+                </p>
+              )}
               <div className="flex-grow overflow-y-auto bg-gray-50 p-3 rounded-lg border">
-                {socialMediaPosts.length > 0 ? socialMediaPosts.map(post => (
+                {shownPosts.length > 0 ? shownPosts.map(post => (
                     <a href={post.url} target="_blank" rel="noopener noreferrer" key={post.id} className="block bg-white p-3 rounded-md shadow-sm mb-3 hover:bg-blue-50 transition-colors">
                         <div className="flex items-start space-x-3">
                             {post.userAvatar && (
@@ -114,12 +272,41 @@ export default function DetailedInsight({ disasterId }: DetailedInsightProps) {
                             )}
                             <div className="flex-1">
                                 <p className="font-semibold text-sm">{post.userDisplayName} <span className="font-normal text-gray-500">@{post.user}</span></p>
+                                {post.category && (
+                                  <p className="text-xs mt-1">
+                                    <span className={`px-2 py-0.5 font-semibold rounded-full border ${CATEGORY_STYLES[post.category].className}`}>
+                                      {CATEGORY_STYLES[post.category].label}
+                                    </span>
+                                    {post.urgency && <span className={`ml-2 ${URGENCY_STYLES[post.urgency]}`}>Urgency: {post.urgency}</span>}
+                                  </p>
+                                )}
                                 <p className="text-gray-800 my-1">{post.post}</p>
-                                <p className="text-xs text-gray-500">Platform: {post.platform} - {new Date(post.timestamp).toLocaleString()}</p>
+                                {post.extracted && (post.extracted.phones.length > 0 || post.extracted.addresses.length > 0 || post.extracted.places.length > 0) && (
+                                  <p className="text-xs text-gray-600 mb-1">
+                                    {post.extracted.phones.length > 0 && <span className="mr-3">Phone: {post.extracted.phones.join(', ')}</span>}
+                                    {[...post.extracted.addresses.map(a => ({ name: a.text, located: a.latitude !== undefined })),
+                                      ...post.extracted.places.map(p => ({ name: p.name, located: p.latitude !== undefined }))]
+                                      .map(({ name, located }) => (
+                                        <span key={name} className="mr-3" title={located ? 'Located on the map' : 'Could not be located'}>
+                                          {located && <MapPin className="inline w-3 h-3 mr-0.5" />}{name}
+                                        </span>
+                                      ))}
+                                  </p>
+                                )}
+                                <p className="text-xs text-gray-500">
+                                  Platform: {post.platform}
+                                  {post.source && <span className={`ml-1 ${SOURCE_STYLES[post.source].className}`}>[{SOURCE_STYLES[post.source].label}]</span>}
+                                  {post.alsoSeenOn && post.alsoSeenOn.length > 0 && ` (also on ${post.alsoSeenOn.join(', ')})`}
+                                  {' '}- {new Date(post.timestamp).toLocaleString()}
+                                </p>
                             </div>
                         </div>
                     </a>
-                )) : <p className="text-gray-500">No social media posts found.</p>}
+                )) : (
+                  <p className="text-gray-500">
+                    {categoryFilter !== 'all' ? 'No posts in this category.' : archiveResults ? 'No stored posts match your search.' : 'No social media posts found.'}
+                  </p>
+                )}
               </div>
             </section>
           </div>
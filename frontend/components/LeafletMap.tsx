@@ -1,6 +1,6 @@
 import { useEffect, useState, useRef } from "react";
 import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
-import { LocateFixed, Loader2, List, MapPin, Search, Filter, AlertCircle, Heart, Shield } from "lucide-react";
+import { LocateFixed, Loader2, List, MapPin, Search, Filter, AlertCircle, Heart, Shield, Download } from "lucide-react";
 import L from "leaflet";
 import 'leaflet/dist/leaflet.css';
 import { Toaster, toast } from "sonner";
@@ -12,6 +12,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import DetailedInsight from './DetailedInsight'; // Assuming DetailedInsight.tsx is in the same folder
+import { useRealtime } from "@/hooks/use-realtime";
+import { RealtimeEvent } from "@/lib/socket";
 
 // Fix for default markers in react-leaflet
 delete ((L.Icon.Default.prototype as unknown) as { [key: string]: unknown })._getIconUrl;
@@ -21,21 +23,75 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-// --- Enhanced Custom icon for DISASTER markers ---
-const disasterIcon = new L.DivIcon({
-  html: `
-    <div class="relative">
-      <div class="w-12 h-12 bg-gradient-to-r from-red-500 to-orange-500 rounded-full flex items-center justify-center shadow-lg border-4 border-white animate-pulse">
-        <span class="text-white text-xl font-bold">⚠️</span>
+// Disasters are loaded for the visible area, page by page
+const DISASTER_PAGE_SIZE = 200;
+const MAX_DISASTER_PAGES = 5;
+
+// --- Disaster lifecycle statuses, in order ---
+const DISASTER_STATUSES = ['reported', 'verified', 'active', 'contained', 'resolved', 'archived'];
+
+const STATUS_BADGE_STYLES: Record<string, string> = {
+  reported: 'bg-gray-100 text-gray-700',
+  verified: 'bg-blue-100 text-blue-700',
+  active: 'bg-red-100 text-red-700',
+  contained: 'bg-orange-100 text-orange-700',
+  resolved: 'bg-green-100 text-green-700',
+  archived: 'bg-slate-200 text-slate-600',
+};
+
+// Marker gradient by severity (1 = minor, 5 = catastrophic)
+const SEVERITY_GRADIENTS: Record<number, string> = {
+  1: 'from-blue-400 to-blue-500',
+  2: 'from-yellow-400 to-yellow-500',
+  3: 'from-orange-400 to-amber-500',
+  4: 'from-red-500 to-orange-500',
+  5: 'from-red-700 to-red-800',
+};
+
+const getSeverityGradient = (severity?: number) => SEVERITY_GRADIENTS[severity ?? 3] || SEVERITY_GRADIENTS[3];
+
+// --- Custom icons for DISASTER markers, one per severity/status pair ---
+const disasterIconCache = new Map<string, L.DivIcon>();
+const getDisasterIcon = (severity = 3, status = 'reported') => {
+  const key = `${severity}:${status}`;
+  const cached = disasterIconCache.get(key);
+  if (cached) return cached;
+
+  // Only ongoing incidents pulse; resolved and archived ones are faded
+  const isLive = ['reported', 'verified', 'active'].includes(status);
+  const isClosed = ['resolved', 'archived'].includes(status);
+  const icon = new L.DivIcon({
+    html: `
+      <div class="relative ${isClosed ? 'opacity-50' : ''}">
+        <div class="w-12 h-12 bg-gradient-to-r ${getSeverityGradient(severity)} rounded-full flex items-center justify-center shadow-lg border-4 border-white ${isLive ? 'animate-pulse' : ''}">
+          <span class="text-white text-lg font-bold">${severity}</span>
+        </div>
+        ${status === 'active' ? '<div class="absolute -top-1 -right-1 w-4 h-4 bg-red-600 rounded-full animate-ping"></div>' : ''}
       </div>
-      <div class="absolute -top-1 -right-1 w-4 h-4 bg-red-600 rounded-full animate-ping"></div>
+    `,
+    className: '',
+    iconSize: [48, 48],
+    iconAnchor: [24, 48],
+    popupAnchor: [0, -48]
+  });
+  disasterIconCache.set(key, icon);
+  return icon;
+};
+
+// Small status and severity chips shown in popups and the disaster list
+function DisasterBadges({ disaster }: { disaster: Disaster }) {
+  const status = disaster.status || 'reported';
+  return (
+    <div className="flex flex-wrap gap-1">
+      <span className={`px-2 py-0.5 text-xs rounded-full font-semibold capitalize ${STATUS_BADGE_STYLES[status] || STATUS_BADGE_STYLES.reported}`}>
+        {status}
+      </span>
+      <span className={`px-2 py-0.5 text-xs rounded-full font-semibold text-white bg-gradient-to-r ${getSeverityGradient(disaster.severity)}`}>
+        Severity {disaster.severity ?? 3}
+      </span>
     </div>
-  `,
-  className: '',
-  iconSize: [48, 48],
-  iconAnchor: [24, 48],
-  popupAnchor: [0, -48]
-});
+  );
+}
 
 // --- Enhanced Custom icon for RESOURCE markers ---
 const resourceIcon = new L.DivIcon({
@@ -78,6 +134,8 @@ interface Disaster {
   latitude: number;
   longitude: number;
   tags: string[];
+  severity?: number;
+  status?: string;
 }
 
 // --- Type definition for RESOURCE data ---
@@ -88,21 +146,66 @@ interface Resource {
     latitude: number;
     longitude: number;
     quantity?: number;
+    capacity?: number | null;
+    unit?: string | null;
+}
+
+type Bbox = [number, number, number, number];
+
+// Convert Leaflet bounds to [minLon, minLat, maxLon, maxLat], wrapping longitudes into [-180, 180]
+const toBbox = (bounds: L.LatLngBounds): Bbox => {
+  const south = Math.max(bounds.getSouth(), -90);
+  const north = Math.min(bounds.getNorth(), 90);
+  if (bounds.getEast() - bounds.getWest() >= 360) return [-180, south, 180, north];
+  const wrap = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+  return [wrap(bounds.getWest()), south, wrap(bounds.getEast()), north];
+};
+
+// Query parameters for the disasters in an area matching the status and severity filters
+const toDisasterQuery = (bbox: Bbox | null, statuses: string[], minSeverity: number) => {
+  const params = new URLSearchParams();
+  if (bbox) params.set('bbox', bbox.join(','));
+  if (statuses.length > 0) params.set('status', statuses.join(','));
+  if (minSeverity > 1) params.set('min_severity', String(minSeverity));
+  return params;
+};
+
+const EXPORT_FORMATS = [
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' },
+  { value: 'csv', label: 'CSV' },
+];
+
+// Insert, replace or remove a record in a list according to a realtime event
+function applyRealtimeEvent<T extends { id: string | number }>(items: T[], event: RealtimeEvent<Partial<T> & { id: string | number }>): T[] {
+  const { type, payload } = event;
+  const exists = items.some(item => String(item.id) === String(payload.id));
+  if (type === 'DELETE') return items.filter(item => String(item.id) !== String(payload.id));
+  if (exists) return items.map(item => String(item.id) === String(payload.id) ? { ...item, ...payload } : item);
+  return type === 'CREATE' ? [payload as T, ...items] : items;
 }
 
 function MapController({
   position,
   onMapReady,
+  onBoundsChange,
   shouldFlyTo,
   onFlyComplete
 }: {
   position: [number, number] | null;
   onMapReady: (map: L.Map) => void;
+  onBoundsChange: (bbox: Bbox) => void;
   shouldFlyTo: boolean;
   onFlyComplete: () => void;
 }) {
   const map = useMap();
   useEffect(() => { onMapReady(map); }, [map, onMapReady]);
+  useEffect(() => {
+    const handleMoveEnd = () => onBoundsChange(toBbox(map.getBounds()));
+    handleMoveEnd();
+    map.on('moveend', handleMoveEnd);
+    return () => { map.off('moveend', handleMoveEnd); };
+  }, [map, onBoundsChange]);
   useEffect(() => {
     if (map && position && shouldFlyTo) {
       map.flyTo(position, 16, { animate: true, duration: 2, easeLinearity: 0.1 });
@@ -126,6 +229,10 @@ export default function LeafletMap({}: LeafletMapProps) {
   const [isFetchingResources, setIsFetchingResources] = useState<boolean>(false);
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [statusFilter, setStatusFilter] = useState<string[]>(DISASTER_STATUSES.filter(s => s !== 'archived'));
+  const [minSeverity, setMinSeverity] = useState<number>(1);
+  const [visibleBbox, setVisibleBbox] = useState<Bbox | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<string | null>(null);
 
   // --- 2. STATE TO MANAGE THE DETAILED INSIGHT DIALOG ---
   const [selectedDisasterId, setSelectedDisasterId] = useState<string | number | null>(null);
@@ -139,32 +246,74 @@ export default function LeafletMap({}: LeafletMapProps) {
   // API URL from environment variable
   const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
 
+  // Disasters matching the status and severity filters
+  const visibleDisasters = disasters.filter(disaster =>
+    statusFilter.includes(disaster.status || 'reported') && (disaster.severity ?? 3) >= minSeverity
+  );
+
   // Filter disasters based on search term
-  const filteredDisasters = disasters.filter(disaster =>
+  const filteredDisasters = visibleDisasters.filter(disaster =>
     disaster.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     disaster.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
     disaster.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
-  // Effect to fetch initial disaster data
+  const toggleStatusFilter = (status: string) => {
+    setStatusFilter(current => current.includes(status) ? current.filter(s => s !== status) : [...current, status]);
+  };
+
+  // Effect to fetch the disasters inside the visible map area whenever the user pans or zooms
   useEffect(() => {
+    if (!visibleBbox) return;
+    const controller = new AbortController();
+
     const fetchDisasters = async () => {
       setIsFetchingDisasters(true);
       try {
-        console.log("API_URL:", API_URL);
-        const response = await fetch(`${API_URL}/disasters`);
-        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-        setDisasters(await response.json());
-        toast.success("Disaster data loaded successfully!");
+        const params = toDisasterQuery(visibleBbox, statusFilter, minSeverity);
+        params.set('limit', String(DISASTER_PAGE_SIZE));
+
+        // Follow the cursor for a few pages so busy areas are not cut off
+        const loaded: Disaster[] = [];
+        let cursor: string | null = null;
+        for (let page = 0; page < MAX_DISASTER_PAGES; page++) {
+          if (cursor) params.set('cursor', cursor);
+          const response = await fetch(`${API_URL}/disasters?${params}`, { signal: controller.signal });
+          if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+          loaded.push(...await response.json());
+          cursor = response.headers.get('X-Next-Cursor');
+          if (!cursor) break;
+        }
+        setDisasters(loaded);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error("Failed to fetch disasters:", error);
         toast.error("Could not fetch disaster data.");
       } finally {
-        setIsFetchingDisasters(false);
+        if (!controller.signal.aborted) setIsFetchingDisasters(false);
       }
     };
-    fetchDisasters();
-  }, [API_URL]);
+
+    // Wait for the map to settle before fetching
+    const timer = setTimeout(fetchDisasters, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [API_URL, visibleBbox, statusFilter, minSeverity]);
+
+  // Live updates for disasters and resources inside the visible map area
+  useRealtime('map', visibleBbox ? { bbox: visibleBbox } : null, {
+    disaster_updated: (event: RealtimeEvent<Disaster>) => {
+      setDisasters(current => applyRealtimeEvent(current, event));
+      if (event.type === 'CREATE') {
+        toast.info(`New disaster reported: ${event.payload.title}`);
+      }
+    },
+    resource_updated: (event: RealtimeEvent<Resource>) => {
+      setResources(current => applyRealtimeEvent(current, event));
+    },
+  });
 
   // Effect to fly to user location on initial load
   useEffect(() => {
@@ -241,6 +390,36 @@ export default function LeafletMap({}: LeafletMapProps) {
     );
   };
 
+  // Download the disasters currently shown on the map in a GIS-friendly format
+  const handleExport = async (format: string) => {
+    setExportingFormat(format);
+    try {
+      const params = toDisasterQuery(visibleBbox, statusFilter, minSeverity);
+      params.set('format', format);
+      const response = await fetch(`${API_URL}/export/disasters?${params}`);
+      if (!response.ok) throw new Error(`Export failed. Status: ${response.status}`);
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `disasters.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (response.headers.get('X-Export-Truncated')) {
+        toast.warning('Export was truncated', { description: 'Zoom in or narrow the filters to export everything.' });
+      } else {
+        toast.success(`Exported ${filename}`);
+      }
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Could not export disasters.");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleDisasterListItemClick = (disaster: Disaster) => {
     setShowDisasterList(false);
     if (mapInstanceRef.current) {
@@ -258,15 +437,6 @@ export default function LeafletMap({}: LeafletMapProps) {
     }
   };
 
-  const getSeverityColor = (tags: string[]) => {
-    if (tags.some(tag => ['critical', 'severe', 'emergency'].includes(tag.toLowerCase()))) {
-      return 'from-red-600 to-red-700';
-    } else if (tags.some(tag => ['moderate', 'warning'].includes(tag.toLowerCase()))) {
-      return 'from-yellow-500 to-orange-600';
-    }
-    return 'from-blue-500 to-blue-600';
-  };
-
   return (
     <div className="relative w-full overflow-hidden rounded-2xl shadow-2xl bg-gradient-to-br from-slate-900 via-blue-900 to-indigo-900" style={{ height: "80vh" }}>
       <Toaster position="top-center" richColors expand visibleToasts={3} />
@@ -318,13 +488,49 @@ export default function LeafletMap({}: LeafletMapProps) {
         </button>
       </div>
 
+      {/* Status and Severity Filters */}
+      {showFilters && (
+        <div className="absolute top-20 right-6 z-[1000] w-72 bg-white/95 backdrop-blur-xl rounded-xl border border-white/20 shadow-lg p-4 space-y-4">
+          <div>
+            <h4 className="font-semibold text-gray-800 mb-2">Status</h4>
+            <div className="flex flex-wrap gap-2">
+              {DISASTER_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatusFilter(status)}
+                  className={`px-3 py-1 text-xs rounded-full font-semibold capitalize border transition-all ${
+                    statusFilter.includes(status)
+                      ? `${STATUS_BADGE_STYLES[status]} border-transparent`
+                      : 'bg-white text-gray-400 border-gray-200'
+                  }`}
+                >
+                  {status}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="font-semibold text-gray-800 mb-2">Minimum severity: {minSeverity}</h4>
+            <input
+              type="range"
+              min={1}
+              max={5}
+              step={1}
+              value={minSeverity}
+              onChange={(e) => setMinSeverity(parseInt(e.target.value, 10))}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+
       <MapContainer
         center={defaultPosition}
         zoom={3}
         style={{ height: "100%", width: "100%" }}
         className="z-10"
       >
-        <MapController {...{position, onMapReady: handleMapReady, shouldFlyTo, onFlyComplete: handleFlyComplete}} />
+        <MapController {...{position, onMapReady: handleMapReady, onBoundsChange: setVisibleBbox, shouldFlyTo, onFlyComplete: handleFlyComplete}} />
         <TileLayer 
           attribution='© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>' 
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" 
@@ -344,18 +550,19 @@ export default function LeafletMap({}: LeafletMapProps) {
         )}
         
         {/* Enhanced Disaster Markers */}
-        {(searchTerm ? filteredDisasters : disasters)
+        {(searchTerm ? filteredDisasters : visibleDisasters)
           .filter(d => typeof d.latitude === 'number' && typeof d.longitude === 'number')
           .map((disaster) => (
-            <Marker key={`disaster-${disaster.id}`} position={[disaster.latitude, disaster.longitude]} icon={disasterIcon}>
+            <Marker key={`disaster-${disaster.id}`} position={[disaster.latitude, disaster.longitude]} icon={getDisasterIcon(disaster.severity, disaster.status)}>
               <Popup className="custom-popup">
                 <div className="w-80 space-y-4 p-2">
                   <div className="flex items-start gap-3">
-                    <div className="w-12 h-12 bg-gradient-to-r from-red-500 to-orange-500 rounded-full flex items-center justify-center flex-shrink-0">
+                    <div className={`w-12 h-12 bg-gradient-to-r ${getSeverityGradient(disaster.severity)} rounded-full flex items-center justify-center flex-shrink-0`}>
                       <AlertCircle className="w-6 h-6 text-white" />
                     </div>
                     <div className="flex-1">
                       <h3 className="font-bold text-xl mb-2 text-gray-800">{disaster.title}</h3>
+                      <div className="mb-2"><DisasterBadges disaster={disaster} /></div>
                       <p className="text-sm text-gray-600 mb-3 leading-relaxed">{disaster.description}</p>
                       
                       {disaster.tags.length > 0 && (
@@ -418,11 +625,16 @@ export default function LeafletMap({}: LeafletMapProps) {
                                 <p className="text-sm text-gray-600 mb-1">
                                   <span className="font-medium">Type:</span> {resource.resource_type}
                                 </p>
-                                {resource.quantity && (
+                                {resource.quantity !== undefined && (
                                   <p className="text-sm text-gray-600">
-                                    <span className="font-medium">Available:</span> {resource.quantity}
+                                    <span className="font-medium">Available:</span> {resource.quantity} {resource.unit || ''}
                                   </p>
                                 )}
+                                {resource.capacity ? (
+                                  <p className="text-sm text-gray-600">
+                                    <span className="font-medium">Capacity:</span> {resource.capacity}
+                                  </p>
+                                ) : null}
                                 <div className="mt-2 px-3 py-1 bg-green-100 text-green-800 text-xs rounded-full inline-block font-medium">
                                   Available Resource
                                 </div>
@@ -452,7 +664,7 @@ export default function LeafletMap({}: LeafletMapProps) {
             </span>
             {!(isLocating || isFetchingDisasters || isFetchingResources) && (
               <p className="text-sm text-gray-600 mt-1">
-                {disasters.length} disasters • {resources.length} resources
+                {visibleDisasters.length} disasters • {resources.length} resources
               </p>
             )}
           </div>
@@ -495,11 +707,27 @@ export default function LeafletMap({}: LeafletMapProps) {
       {/* Enhanced Disaster List Dialog */}
       <Dialog open={showDisasterList} onOpenChange={setShowDisasterList}>
         <DialogContent className="max-w-2xl bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl">
-          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
-            All Active Disasters
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            Disasters
           </DialogTitle>
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm text-gray-600 flex items-center gap-1">
+              <Download className="w-4 h-4" /> Export visible area:
+            </span>
+            {EXPORT_FORMATS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => handleExport(value)}
+                disabled={exportingFormat !== null}
+                className="px-3 py-1 text-xs font-semibold rounded-full border border-blue-200 bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 inline-flex items-center gap-1"
+              >
+                {exportingFormat === value && <Loader2 className="w-3 h-3 animate-spin" />}
+                {label}
+              </button>
+            ))}
+          </div>
           <div className="max-h-96 overflow-y-auto space-y-3 pr-2">
-            {disasters.length === 0 ? (
+            {visibleDisasters.length === 0 ? (
               <div className="text-center py-12">
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <AlertCircle className="w-8 h-8 text-gray-400" />
@@ -508,20 +736,21 @@ export default function LeafletMap({}: LeafletMapProps) {
                 <p className="text-gray-400 text-sm">Check back later for updates</p>
               </div>
             ) : (
-              disasters.map((disaster) => (
+              visibleDisasters.map((disaster) => (
                 <div
                   key={disaster.id}
                   className="group p-4 bg-gradient-to-r from-white to-blue-50 rounded-xl shadow-md hover:shadow-lg cursor-pointer transition-all duration-300 border border-blue-100 hover:border-blue-300 transform hover:-translate-y-1"
                   onClick={() => handleDisasterListItemClick(disaster)}
                 >
                   <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 bg-gradient-to-r from-red-500 to-orange-500 rounded-full flex items-center justify-center flex-shrink-0 group-hover:scale-110 transition-transform duration-300">
+                    <div className={`w-12 h-12 bg-gradient-to-r ${getSeverityGradient(disaster.severity)} rounded-full flex items-center justify-center flex-shrink-0 group-hover:scale-110 transition-transform duration-300`}>
                       <AlertCircle className="w-6 h-6 text-white" />
                     </div>
                     <div className="flex-1">
                       <h3 className="font-bold text-lg text-gray-800 group-hover:text-blue-700 transition-colors">
                         {disaster.title}
                       </h3>
+                      <div className="mb-2"><DisasterBadges disaster={disaster} /></div>
                       <p className="text-sm text-gray-600 mb-2 line-clamp-2">{disaster.description}</p>
                       <div className="flex flex-wrap gap-1">
                         {disaster.tags.slice(0, 3).map((tag, index) => (
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { MapContainer, TileLayer, CircleMarker, useMap, useMapEvents } from "react-leaflet";
+import { Loader2, Search, X } from "lucide-react";
+import 'leaflet/dist/leaflet.css';
+import { Input } from "@/components/ui/input";
+import { authFetch } from "@/lib/userSession";
+
+export interface PickedLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  provider: string;
+  confidence: number | null;
+}
+
+interface LocationSuggestion {
+  latitude: number;
+  longitude: number;
+  label: string;
+  provider: string;
+  confidence: number | null;
+}
+
+interface LocationPickerProps {
+  value: PickedLocation | null;
+  onChange: (location: PickedLocation | null) => void;
+}
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+// Matches the server's minimum; shorter queries are not sent
+const MIN_QUERY_LENGTH = 3;
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Sets the location wherever the map is clicked
+function ClickToPick({ onPick }: { onPick: (latitude: number, longitude: number) => void }) {
+  useMapEvents({
+    click: (event) => onPick(event.latlng.lat, event.latlng.lng),
+  });
+  return null;
+}
+
+// Brings a location chosen from the suggestions into view
+function FollowLocation({ location }: { location: PickedLocation | null }) {
+  const map = useMap();
+  useEffect(() => {
+    if (location) map.setView([location.latitude, location.longitude], Math.max(map.getZoom(), 10));
+  }, [location, map]);
+  return null;
+}
+
+export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Address autocomplete, debounced so typing doesn't flood the geocoder
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await authFetch(`${API_URL}/disasters/locations/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error('Location search failed');
+        setSuggestions(await response.json());
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Location search failed:', error);
+          setSuggestions([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const chooseSuggestion = (suggestion: LocationSuggestion) => {
+    onChange({
+      name: suggestion.label,
+      latitude: suggestion.latitude,
+      longitude: suggestion.longitude,
+      provider: suggestion.provider,
+      confidence: suggestion.confidence,
+    });
+    setQuery('');
+    setSuggestions([]);
+  };
+
+  const pickOnMap = (latitude: number, longitude: number) => {
+    onChange({
+      name: `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`,
+      latitude,
+      longitude,
+      provider: 'manual',
+      confidence: 1,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search for an address or place"
+          className="pl-9 bg-black/5 border-slate-300/70 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/30 transition"
+        />
+        {isSearching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-slate-400" />}
+        {suggestions.length > 0 && (
+          <ul className="absolute z-[1000] mt-1 w-full bg-white border border-slate-300 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+            {suggestions.map((suggestion, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => chooseSuggestion(suggestion)}
+                  className="w-full text-left px-3 py-2 text-sm text-slate-700 hover:bg-blue-50"
+                >
+                  {suggestion.label}
+                  <span className="block text-xs text-slate-500">{suggestion.provider}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="h-48 rounded-lg overflow-hidden border border-slate-300/70">
+        <MapContainer
+          center={value ? [value.latitude, value.longitude] : [20, 0]}
+          zoom={value ? 10 : 2}
+          style={{ height: "100%", width: "100%" }}
+        >
+          <TileLayer
+            attribution='© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <ClickToPick onPick={pickOnMap} />
+          <FollowLocation location={value} />
+          {value && (
+            <CircleMarker center={[value.latitude, value.longitude]} radius={8} pathOptions={{ color: '#2563eb', fillOpacity: 0.6 }} />
+          )}
+        </MapContainer>
+      </div>
+
+      {value ? (
+        <div className="flex items-center justify-between gap-2 text-sm text-slate-700">
+          <span>
+            {value.name}
+            <span className="block text-xs text-slate-500">{value.latitude.toFixed(4)}, {value.longitude.toFixed(4)}</span>
+          </span>
+          <button type="button" onClick={() => onChange(null)} className="text-slate-500 hover:text-red-600" aria-label="Clear location">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Click the map or search for an address to set the location.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, CheckCircle2, XCircle, ArrowUpCircle, Inbox } from 'lucide-react';
+import { toast } from 'sonner';
+import { Textarea } from "@/components/ui/textarea";
+import { authFetch } from '@/lib/userSession';
+
+interface VerificationSignal {
+  id: string;
+  source: 'forensics' | 'ai';
+  outcome: 'supports' | 'contradicts' | 'neutral';
+  weight: number;
+  explanation: string;
+}
+
+interface DuplicateImage {
+  report_id: number | null;
+  disaster_id: number | null;
+  disaster_title: string | null;
+  image_url: string | null;
+  distance: number;
+  first_seen: string;
+}
+
+interface QueuedReport {
+  id: number;
+  created_at: string;
+  user_id: string;
+  content: string;
+  image_url?: string;
+  verification_status: string;
+  verification_result?: {
+    disaster_context?: string;
+    confidence_score?: string | number;
+    raw_analysis?: string;
+    error?: string;
+    signals?: VerificationSignal[];
+    duplicates?: DuplicateImage[];
+  } | null;
+  severity: number;
+  disaster: { id: number; title: string; tags: string[]; severity: number } | null;
+}
+
+type Decision = 'approve' | 'reject' | 'escalate';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-700 border-gray-300',
+  needs_review: 'bg-amber-100 text-amber-800 border-amber-300',
+  escalated: 'bg-red-100 text-red-700 border-red-300',
+};
+
+const SIGNAL_STYLES: Record<VerificationSignal['outcome'], string> = {
+  supports: 'text-green-700',
+  contradicts: 'text-red-700',
+  neutral: 'text-gray-500',
+};
+
+const SEVERITY_LABELS: Record<number, string> = { 5: 'Catastrophic', 4: 'Severe', 3: 'Moderate', 2: 'Minor', 1: 'Low' };
+
+/**
+ * Lists reports waiting for a human decision and lets verifiers approve,
+ * reject or escalate them with a reason.
+ */
+export default function ModerationPanel() {
+  const [queue, setQueue] = useState<QueuedReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+  const [submittingId, setSubmittingId] = useState<number | null>(null);
+  const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await authFetch(`${API_URL}/reports/queue`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to load the moderation queue.');
+      setQueue(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load the moderation queue.');
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleReview = async (report: QueuedReport, decision: Decision) => {
+    const reason = reasons[report.id]?.trim() || '';
+    if (decision !== 'approve' && !reason) {
+      toast.error('Please give a reason when rejecting or escalating a report.');
+      return;
+    }
+
+    setSubmittingId(report.id);
+    try {
+      const response = await authFetch(`${API_URL}/reports/${report.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to submit the review.');
+
+      toast.success(`Report #${report.id} ${data.verification_status}.`);
+      // Escalated reports stay in the queue with their new status
+      setQueue(current => decision === 'escalate'
+        ? current.map(r => r.id === report.id ? { ...r, verification_status: data.verification_status } : r)
+        : current.filter(r => r.id !== report.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit the review.');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-10 h-10 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Inbox className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-500 text-lg">The moderation queue is empty</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[70vh] overflow-y-auto space-y-4 pr-2">
+      {queue.map(report => (
+        <div key={report.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="font-semibold text-gray-800">{report.disaster?.title || `Disaster #${report.disaster?.id}`}</p>
+              <p className="text-xs text-gray-500">
+                Report #{report.id} by {report.user_id} • {new Date(report.created_at).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <span className="px-2 py-0.5 text-xs font-semibold rounded-full border bg-blue-50 text-blue-700 border-blue-200">
+                {SEVERITY_LABELS[report.severity] || SEVERITY_LABELS[3]} severity ({report.severity}/5)
+              </span>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full border ${STATUS_STYLES[report.verification_status] || STATUS_STYLES.pending}`}>
+                {report.verification_status.replace('_', ' ')}
+              </span>
+            </div>
+          </div>
+
+          <p className="text-gray-800">{report.content}</p>
+          {report.image_url && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={report.image_url} alt="Report" className="rounded-lg max-h-48" />
+          )}
+          {report.verification_result && (
+            <p className="text-xs text-gray-600 bg-gray-50 p-2 rounded-md">
+              <span className="font-semibold">Verification:</span>{' '}
+              {report.verification_result.error
+                ? `failed (${report.verification_result.error})`
+                : `${report.verification_result.disaster_context || 'no context'} (confidence ${report.verification_result.confidence_score ?? 'n/a'})`}
+            </p>
+          )}
+          {report.verification_result?.signals && (
+            <ul className="text-xs space-y-0.5 pl-2">
+              {report.verification_result.signals
+                .filter(signal => signal.outcome !== 'neutral')
+                .map(signal => (
+                  <li key={signal.id} className={SIGNAL_STYLES[signal.outcome]}>
+                    {signal.outcome === 'supports' ? '+' : '−'} {signal.explanation}
+                  </li>
+                ))}
+            </ul>
+          )}
+          {report.verification_result?.duplicates && report.verification_result.duplicates.length > 0 && (
+            <div className="text-xs bg-amber-50 border border-amber-200 text-amber-900 p-2 rounded-md space-y-1">
+              <p className="font-semibold">Seen before:</p>
+              {report.verification_result.duplicates.map((duplicate, index) => (
+                <p key={index}>
+                  {duplicate.report_id ? `Report #${duplicate.report_id}` : 'Image check'}
+                  {duplicate.disaster_id && ` for "${duplicate.disaster_title || `disaster #${duplicate.disaster_id}`}"`}
+                  {` on ${new Date(duplicate.first_seen).toLocaleDateString()}`}
+                  {duplicate.image_url && (
+                    <>
+                      {' '}(<a href={duplicate.image_url} target="_blank" rel="noopener noreferrer" className="underline">image</a>)
+                    </>
+                  )}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Textarea
+            placeholder="Reason (required to reject or escalate)"
+            rows={2}
+            value={reasons[report.id] || ''}
+            onChange={(e) => setReasons(current => ({ ...current, [report.id]: e.target.value }))}
+          />
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleReview(report, 'approve')}
+              disabled={submittingId === report.id}
+              className="flex-1 inline-flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-semibold py-2 rounded-lg disabled:opacity-50"
+            >
+              <CheckCircle2 className="w-4 h-4" /> Approve
+            </button>
+            <button
+              onClick={() => handleReview(report, 'reject')}
+              disabled={submittingId === report.id}
+              className="flex-1 inline-flex items-center justify-center gap-2 bg-red-600 hover:bg-red-700 text-white font-semibold py-2 rounded-lg disabled:opacity-50"
+            >
+              <XCircle className="w-4 h-4" /> Reject
+            </button>
+            <button
+              onClick={() => handleReview(report, 'escalate')}
+              disabled={submittingId === report.id || report.verification_status === 'escalated'}
+              className="flex-1 inline-flex items-center justify-center gap-2 bg-amber-500 hover:bg-amber-600 text-white font-semibold py-2 rounded-lg disabled:opacity-50"
+            >
+              <ArrowUpCircle className="w-4 h-4" /> Escalate
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { authFetch } from '@/lib/userSession';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+
+interface SearchTerms {
+  saved: string[] | null;
+  automatic: string[];
+  effective: { terms: string[]; synonyms: string[]; place: string | null; termSource: 'saved' | 'automatic' };
+}
+
+interface SocialSearchTermsEditorProps {
+  disasterId: string | number;
+  // Called after the terms change, so the caller can search again
+  onSaved: () => void;
+}
+
+// Lets a coordinator replace the terms the social media search uses for a disaster.
+// Terms are comma-separated; saving an empty list goes back to the automatic terms.
+export default function SocialSearchTermsEditor({ disasterId, onSaved }: SocialSearchTermsEditorProps) {
+  const [searchTerms, setSearchTerms] = useState<SearchTerms | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`${API_URL}/disasters/${disasterId}/social-search-terms`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: SearchTerms | null) => {
+        if (!data) return;
+        setSearchTerms(data);
+        setDraft((data.saved ?? data.automatic).join(', '));
+      })
+      .catch(() => setSearchTerms(null));
+  }, [disasterId]);
+
+  const save = async (terms: string[] | null) => {
+    setSaving(true);
+    try {
+      const res = await authFetch(`${API_URL}/disasters/${disasterId}/social-search-terms`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ terms }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || 'Failed to save search terms');
+      setSearchTerms(data);
+      setDraft((data.saved ?? data.automatic).join(', '));
+      toast.success(data.saved ? 'Search terms saved' : 'Using automatic search terms');
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save search terms');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    save(draft.split(',').map(term => term.trim()).filter(Boolean));
+  };
+
+  if (!searchTerms) return null;
+
+  return (
+    <form onSubmit={submit} className="mb-2">
+      <div className="flex gap-2">
+        <Input value={draft} onChange={e => setDraft(e.target.value)} placeholder="Search terms, comma-separated" />
+        <Button type="submit" size="sm" variant="outline" disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save terms'}
+        </Button>
+        {searchTerms.saved && (
+          <Button type="button" size="sm" variant="ghost" disabled={saving} onClick={() => save(null)}>
+            Reset
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {searchTerms.effective.termSource === 'saved' ? 'Saved terms' : 'Automatic terms'}
+        {searchTerms.effective.place && ` near ${searchTerms.effective.place}`}
+        {searchTerms.effective.synonyms.length > 0 && `, also searching: ${searchTerms.effective.synonyms.join(', ')}`}
+      </p>
+    </form>
+  );
+}
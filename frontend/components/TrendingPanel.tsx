@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, MapPin, RefreshCw, TrendingUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { authFetch } from '@/lib/userSession';
+
+interface TrendingTag {
+  tag: string;
+  count: number;
+  authors: number;
+  baseline: number;
+  score: number;
+  growth: number;
+  series: number[];
+}
+
+interface TrendingTopic {
+  tags: TrendingTag[];
+  score: number;
+  posts: number;
+  authors: number;
+  firstSeen: string;
+  lastSeen: string;
+  center: { latitude: number; longitude: number } | null;
+  disasters: { id: number; title: string; status: string }[];
+  unlinked: boolean;
+  samplePosts: { id: string; post: string; user: string; timestamp: string; platform: string; url: string }[];
+}
+
+interface TrendingResult {
+  window: { minutes: number; from: string; to: string };
+  baseline: { windows: number; from: string };
+  postsAnalyzed: number;
+  truncated: boolean;
+  topics: TrendingTopic[];
+}
+
+// Window length in minutes
+const WINDOWS = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 360, label: '6 hours' },
+];
+
+/**
+ * Topics spiking in the collected social media posts, so coordinators can
+ * spot an incident before anyone files a disaster for it.
+ */
+export default function TrendingPanel() {
+  const [windowMinutes, setWindowMinutes] = useState(60);
+  const [result, setResult] = useState<TrendingResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+
+  const fetchTrends = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await authFetch(`${API_URL}/social/trending?${new URLSearchParams({ window: String(windowMinutes) })}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to load trending topics.');
+      setResult(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load trending topics.');
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, windowMinutes]);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [fetchTrends]);
+
+  return (
+    <div className="max-h-[70vh] overflow-y-auto space-y-3">
+      <div className="flex items-center gap-2">
+        {WINDOWS.map(option => (
+          <Button key={option.minutes} size="sm" variant={windowMinutes === option.minutes ? 'default' : 'outline'} onClick={() => setWindowMinutes(option.minutes)}>
+            {option.label}
+          </Button>
+        ))}
+        <Button size="icon" variant="ghost" onClick={fetchTrends} disabled={loading} aria-label="Refresh">
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {result && (
+        <p className="text-xs text-gray-500">
+          Compared with the previous {result.baseline.windows} windows, from {result.postsAnalyzed} stored posts
+          {result.truncated && ' (only the newest were read, so older windows are undercounted)'}.
+        </p>
+      )}
+
+      {loading && !result ? (
+        <div className="flex justify-center py-8"><Loader2 className="w-8 h-8 animate-spin text-blue-500" /></div>
+      ) : result && result.topics.length > 0 ? result.topics.map(topic => (
+        <div key={topic.tags.map(t => t.tag).join(' ')} className={`p-3 rounded-md border ${topic.unlinked ? 'border-red-300 bg-red-50' : 'bg-white'}`}>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <TrendingUp className="w-4 h-4 text-rose-600" />
+            {topic.tags.map(tag => (
+              <span key={tag.tag} className="font-semibold text-sm" title={`${tag.count} posts now, ${tag.baseline} per window before`}>
+                {tag.tag} <span className="font-normal text-xs text-gray-500">x{tag.growth}</span>
+              </span>
+            ))}
+            {topic.unlinked && (
+              <span className="px-2 py-0.5 text-xs font-semibold bg-red-100 text-red-700 rounded-full border border-red-300">Possible new incident</span>
+            )}
+          </div>
+          <p className="text-xs text-gray-600 mb-1">
+            {topic.posts} posts by {topic.authors} accounts since {new Date(topic.firstSeen).toLocaleTimeString()}
+            {topic.center && (
+              <span className="ml-2"><MapPin className="inline w-3 h-3 mr-0.5" />{topic.center.latitude.toFixed(3)}, {topic.center.longitude.toFixed(3)}</span>
+            )}
+            {topic.disasters.length > 0 && ` - about ${topic.disasters.map(d => d.title).join(', ')}`}
+          </p>
+          {topic.samplePosts.map(post => (
+            <a key={post.id} href={post.url} target="_blank" rel="noopener noreferrer" className="block text-sm text-gray-800 hover:bg-blue-50 rounded px-1">
+              <span className="text-gray-500">@{post.user}:</span> {post.post}
+            </a>
+          ))}
+        </div>
+      )) : (
+        <p className="text-gray-500">Nothing is trending in this window.</p>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,64 @@
 import { useState, KeyboardEvent, FormEvent } from 'react';
+import dynamic from 'next/dynamic';
 import { toast } from 'sonner';
 import { Button } from "@/components/ui/button"; // Still used for type consistency, but we'll override styles
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { X, Loader2, Pencil, FileText, Tag } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Loader2, Pencil, FileText, Tag, Gauge, MapPin } from 'lucide-react';
+import { authFetch } from '@/lib/userSession';
+import type { PickedLocation } from './LocationPicker';
+
+// Leaflet needs the browser, so the picker map is only rendered client side
+const LocationPicker = dynamic(() => import('./LocationPicker'), { ssr: false });
 
 interface CreateDisasterFormProps {
   onSuccess?: () => void;
 }
 
+interface LocationCandidate {
+  latitude: number;
+  longitude: number;
+  label: string;
+  provider: string;
+  confidence: number | null;
+}
+
+interface DetectedPlace {
+  name: string;
+  role: 'primary' | 'affected_area' | 'shelter_site';
+  candidates: LocationCandidate[];
+  // Index of the chosen candidate; -1 leaves the place out
+  selected: number;
+}
+
+const ROLE_LABELS: Record<DetectedPlace['role'], string> = {
+  primary: 'Primary location',
+  affected_area: 'Affected area',
+  shelter_site: 'Shelter site',
+};
+
+const SEVERITY_OPTIONS = [
+  { value: '1', label: '1 - Low' },
+  { value: '2', label: '2 - Minor' },
+  { value: '3', label: '3 - Moderate' },
+  { value: '4', label: '4 - Severe' },
+  { value: '5', label: '5 - Catastrophic' },
+];
+
 export default function CreateDisasterForm({ onSuccess }: CreateDisasterFormProps) {
   // --- STATE MANAGEMENT (Unchanged) ---
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [currentTag, setCurrentTag] = useState('');
+  const [severity, setSeverity] = useState('3');
+  const [places, setPlaces] = useState<DetectedPlace[] | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [pickedLocation, setPickedLocation] = useState<PickedLocation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
 
   // --- TAG HANDLING LOGIC (Unchanged) ---
   const handleTagKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
@@ -34,7 +76,61 @@ export default function CreateDisasterForm({ onSuccess }: CreateDisasterFormProp
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
 
-  // --- SUBMISSION LOGIC (Unchanged) ---
+  // --- LOCATION DETECTION ---
+  const handleDescriptionChange = (value: string) => {
+    setDescription(value);
+    // Detected places no longer match an edited description
+    setPlaces(null);
+  };
+
+  const handleDetectLocations = async () => {
+    if (!description.trim()) {
+      toast.error("Write a description first so locations can be found in it.");
+      return;
+    }
+    setIsDetecting(true);
+    try {
+      const response = await authFetch(`${API_URL}/disasters/locations/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ description }),
+      });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.error?.message || 'Could not detect locations.');
+      }
+      const detected: DetectedPlace[] = responseData.locations.map((place: Omit<DetectedPlace, 'selected'>) => ({
+        ...place,
+        selected: place.candidates.length > 0 ? 0 : -1,
+      }));
+      setPlaces(detected);
+      if (detected.length === 0) toast.info("No locations were found in the description.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not detect locations.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const selectCandidate = (placeIndex: number, candidateIndex: number) => {
+    setPlaces(current => current && current.map((place, index) =>
+      index === placeIndex ? { ...place, selected: candidateIndex } : place));
+  };
+
+  // The reporter's picks, in the shape the API expects
+  const selectedLocations = (places || [])
+    .filter(place => place.selected >= 0)
+    .map(({ name, role, candidates, selected }) => {
+      const { latitude, longitude, provider, confidence } = candidates[selected];
+      return { name, role, latitude, longitude, provider, confidence };
+    });
+
+  // A location set by hand replaces the detected primary one; detected places are only suggestions
+  const submittedLocations = pickedLocation
+    ? [{ ...pickedLocation, role: 'primary' as const }, ...selectedLocations.filter(location => location.role !== 'primary')]
+    : selectedLocations;
+
+  // --- SUBMISSION LOGIC ---
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -45,18 +141,20 @@ export default function CreateDisasterForm({ onSuccess }: CreateDisasterFormProp
       return;
     }
 
-    const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
-
     try {
-      const response = await fetch(`${API_URL}/disasters`, {
+      const response = await authFetch(`${API_URL}/disasters`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title, description, tags }),
+        body: JSON.stringify({
+          title, description, tags, severity: Number(severity),
+          // Without picks the server extracts and geocodes the locations itself
+          ...(submittedLocations.length > 0 && { locations: submittedLocations }),
+        }),
       });
 
       const responseData = await response.json();
       if (!response.ok) {
-        throw new Error(responseData.message || 'An error occurred while creating the disaster.');
+        throw new Error(responseData.error?.message || 'An error occurred while creating the disaster.');
       }
 
       toast.success('Disaster Reported Successfully!', {
@@ -67,6 +165,9 @@ export default function CreateDisasterForm({ onSuccess }: CreateDisasterFormProp
       setDescription('');
       setTags([]);
       setCurrentTag('');
+      setSeverity('3');
+      setPlaces(null);
+      setPickedLocation(null);
       onSuccess?.();
     } catch (error: any) {
       console.error("Submission Error:", error);
@@ -106,13 +207,113 @@ export default function CreateDisasterForm({ onSuccess }: CreateDisasterFormProp
           id="description"
           placeholder="Provide specific locations, affected areas, and any observed details. This helps with accurate mapping."
           value={description}
-          onChange={(e) => setDescription(e.target.value)}
+          onChange={(e) => handleDescriptionChange(e.target.value)}
           required
           rows={5}
           className="bg-black/5 border-slate-300/70 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/30 transition"
         />
       </div>
 
+      {/* Location set by hand */}
+      <div className="space-y-2">
+        <Label className="flex items-center text-slate-700 font-semibold">
+          <MapPin className="w-4 h-4 mr-2 text-slate-500" />
+          Disaster Location
+        </Label>
+        <LocationPicker value={pickedLocation} onChange={setPickedLocation} />
+      </div>
+
+      {/* Detected Locations */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center text-slate-700 font-semibold">
+            <MapPin className="w-4 h-4 mr-2 text-slate-500" />
+            Places in the Description
+          </Label>
+          <button
+            type="button"
+            onClick={handleDetectLocations}
+            disabled={isDetecting || !description.trim()}
+            className="inline-flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {isDetecting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {places ? 'Detect again' : 'Detect locations'}
+          </button>
+        </div>
+        {!places && (
+          <p className="text-xs text-slate-500">
+            {pickedLocation
+              ? 'Detect the places in your description to add affected areas and shelters to the location you set.'
+              : 'Detect the places in your description to check them before saving. Otherwise they are located automatically.'}
+          </p>
+        )}
+        {places && places.map((place, placeIndex) => (
+          <div key={place.name} className="p-3 bg-slate-100/80 rounded-lg border border-slate-300/70 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-slate-800">{place.name}</span>
+              <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700 font-medium">{ROLE_LABELS[place.role]}</span>
+            </div>
+            {pickedLocation && place.role === 'primary' && (
+              <p className="text-xs text-slate-500">Suggestion only: the location you set above is used instead.</p>
+            )}
+            {place.candidates.length === 0 ? (
+              <p className="text-xs text-red-600">This place could not be found on the map and will be left out.</p>
+            ) : (
+              <div className="space-y-1">
+                {place.candidates.length > 1 && (
+                  <p className="text-xs text-slate-600">Several places match. Which one did you mean?</p>
+                )}
+                {place.candidates.map((candidate, candidateIndex) => (
+                  <label key={candidateIndex} className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`place-${placeIndex}`}
+                      checked={place.selected === candidateIndex}
+                      onChange={() => selectCandidate(placeIndex, candidateIndex)}
+                      className="mt-1"
+                    />
+                    <span>
+                      {candidate.label}
+                      <span className="block text-xs text-slate-500">
+                        {candidate.latitude.toFixed(4)}, {candidate.longitude.toFixed(4)} • {candidate.provider}
+                        {candidate.confidence !== null && ` • ${Math.round(candidate.confidence * 100)}% confidence`}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-slate-500 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`place-${placeIndex}`}
+                    checked={place.selected === -1}
+                    onChange={() => selectCandidate(placeIndex, -1)}
+                  />
+                  None of these
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Severity Field */}
+      <div className="space-y-2">
+        <Label className="flex items-center text-slate-700 font-semibold">
+          <Gauge className="w-4 h-4 mr-2 text-slate-500" />
+          Severity
+        </Label>
+        <Select value={severity} onValueChange={setSeverity}>
+          <SelectTrigger className="w-full bg-black/5 border-slate-300/70">
+            <SelectValue placeholder="How severe is it?" />
+          </SelectTrigger>
+          <SelectContent>
+            {SEVERITY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Enhanced Tags Field */}
       <div className="space-y-2">
         <Label htmlFor="tags" className="flex items-center text-slate-700 font-semibold">
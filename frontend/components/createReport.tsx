@@ -0,0 +1,192 @@
+import { useEffect, useState, FormEvent, ChangeEvent } from 'react';
+import { toast } from 'sonner';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, AlertTriangle, FileText, ImagePlus, Link as LinkIcon } from 'lucide-react';
+import { authFetch } from '@/lib/userSession';
+
+interface DisasterOption {
+  id: string | number;
+  title: string;
+}
+
+interface CreateReportFormProps {
+  onSuccess?: () => void;
+}
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export default function CreateReportForm({ onSuccess }: CreateReportFormProps) {
+  const [disasters, setDisasters] = useState<DisasterOption[]>([]);
+  const [disasterId, setDisasterId] = useState('');
+  const [content, setContent] = useState('');
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+
+  useEffect(() => {
+    // The list is paged; follow X-Next-Cursor so every disaster can be chosen
+    const loadAll = async () => {
+      const all: DisasterOption[] = [];
+      let cursor: string | null = null;
+      do {
+        const params = new URLSearchParams({ limit: '500' });
+        if (cursor) params.set('cursor', cursor);
+        const res: Response = await fetch(`${API_URL}/disasters?${params}`);
+        if (!res.ok) throw new Error('Failed to load disasters');
+        all.push(...(await res.json() as DisasterOption[]));
+        cursor = res.headers.get('X-Next-Cursor');
+      } while (cursor);
+      return all;
+    };
+    loadAll()
+      .then(setDisasters)
+      .catch(() => toast.error("Could not load the list of disasters."));
+  }, [API_URL]);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    if (file && file.size > MAX_IMAGE_BYTES) {
+      toast.error("Image must be smaller than 5 MB.");
+      e.target.value = '';
+      return;
+    }
+    setImageFile(file);
+    if (file) setImageUrl('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!disasterId || !content.trim()) {
+      toast.error("Please choose a disaster and describe what you are seeing.");
+      return;
+    }
+
+    setIsLoading(true);
+    const body = new FormData();
+    body.append('disaster_id', disasterId);
+    body.append('content', content.trim());
+    if (imageFile) {
+      body.append('image', imageFile);
+    } else if (imageUrl.trim()) {
+      body.append('image_url', imageUrl.trim());
+    }
+
+    try {
+      const response = await authFetch(`${API_URL}/reports`, { method: 'POST', body });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.error?.message || 'An error occurred while submitting the report.');
+      }
+
+      toast.success('Report Submitted!', {
+        description: responseData.image_url
+          ? 'Your image is being verified. The report will update once the check completes.'
+          : 'Your report is pending review.',
+      });
+
+      setContent('');
+      setImageFile(null);
+      setImageUrl('');
+      onSuccess?.();
+    } catch (error) {
+      console.error("Report Submission Error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit the report.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Disaster Field */}
+      <div className="space-y-2">
+        <Label className="flex items-center text-slate-700 font-semibold">
+          <AlertTriangle className="w-4 h-4 mr-2 text-slate-500" />
+          Disaster
+        </Label>
+        <Select value={disasterId} onValueChange={setDisasterId}>
+          <SelectTrigger className="w-full bg-black/5 border-slate-300/70">
+            <SelectValue placeholder="Select the disaster you are reporting on" />
+          </SelectTrigger>
+          <SelectContent>
+            {disasters.map((disaster) => (
+              <SelectItem key={disaster.id} value={String(disaster.id)}>
+                {disaster.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Content Field */}
+      <div className="space-y-2">
+        <Label htmlFor="report-content" className="flex items-center text-slate-700 font-semibold">
+          <FileText className="w-4 h-4 mr-2 text-slate-500" />
+          What are you seeing?
+        </Label>
+        <Textarea
+          id="report-content"
+          placeholder="Describe the situation on the ground, e.g. water levels, blocked roads, people needing help."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          required
+          rows={4}
+          className="bg-black/5 border-slate-300/70 focus:border-amber-500 focus:ring-2 focus:ring-amber-500/30 transition"
+        />
+      </div>
+
+      {/* Image Fields */}
+      <div className="space-y-2">
+        <Label htmlFor="report-image" className="flex items-center text-slate-700 font-semibold">
+          <ImagePlus className="w-4 h-4 mr-2 text-slate-500" />
+          Photo (optional)
+        </Label>
+        <Input
+          id="report-image"
+          type="file"
+          accept="image/*"
+          onChange={handleFileChange}
+          className="bg-black/5 border-slate-300/70"
+        />
+        <div className="relative">
+          <LinkIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            placeholder="...or paste an image URL"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            disabled={!!imageFile}
+            className="pl-9 bg-black/5 border-slate-300/70"
+          />
+        </div>
+        <p className="text-xs text-slate-500 pt-1">Photos are checked automatically for authenticity before being marked as verified.</p>
+      </div>
+
+      {/* Submit Button */}
+      <div className="pt-4">
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full inline-flex items-center justify-center rounded-lg px-6 py-3 text-base font-bold text-white shadow-lg transition-all duration-300 ease-out
+                     bg-gradient-to-r from-amber-500 to-orange-600
+                     hover:from-amber-600 hover:to-orange-700 hover:shadow-2xl hover:scale-105
+                     focus:outline-none focus:ring-4 focus:ring-orange-500/50
+                     disabled:opacity-60 disabled:cursor-not-allowed disabled:scale-100 disabled:shadow-lg"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Submitting Report...
+            </>
+          ) : (
+            'Submit Citizen Report'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
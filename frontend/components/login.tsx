@@ -1,31 +1,43 @@
 "use client";
 
-import { useState } from "react";
+import { FormEvent, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AlertCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Loader2 } from "lucide-react";
 import { useRouter } from "next/navigation";
-
-const USERS = [
-  { id: "reliefAdmin", label: "🛠️ Relief Admin" },
-  { id: "netrunnerX", label: "🌐 Netrunner X" },
-];
+import { login, register } from "@/lib/userSession";
 
 export default function Login({ onLogin }: { onLogin?: () => void }) {
   const router = useRouter();
-  const [selected, setSelected] = useState<string>("");
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
   const [error, setError] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(false);
 
-  const handleLogin = () => {
-    if (!selected) {
-      setError("Please select a user role to continue.");
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError("Please enter your username and password.");
       return;
     }
-    localStorage.setItem("userId", selected);
+    setIsLoading(true);
     setError("");
-    if (onLogin) onLogin();
-    router.push("/home");
+    try {
+      if (mode === "login") {
+        await login(username.trim(), password);
+      } else {
+        await register(username.trim(), password);
+      }
+      if (onLogin) onLogin();
+      router.push("/home");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Authentication failed.");
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -36,33 +48,54 @@ export default function Login({ onLogin }: { onLogin?: () => void }) {
             🧭 Disaster Management Login
           </CardTitle>
           <p className="text-sm text-muted-foreground mt-1">
-            Select your role to begin coordination
+            {mode === "login" ? "Sign in to begin coordination" : "Create an account to begin coordination"}
           </p>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <Select onValueChange={setSelected}>
-            <SelectTrigger className="w-full">
-              <SelectValue placeholder="Select User Role" />
-            </SelectTrigger>
-            <SelectContent>
-              {USERS.map((user) => (
-                <SelectItem key={user.id} value={user.id}>
-                  {user.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
 
-          <Button onClick={handleLogin} className="w-full bg-red-600 hover:bg-red-700">
-            Login
-          </Button>
+            <Button type="submit" disabled={isLoading} className="w-full bg-red-600 hover:bg-red-700">
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === "login" ? "Login" : "Create Account"}
+            </Button>
 
-          {error && (
-            <div className="flex items-center text-sm text-red-500 gap-2">
-              <AlertCircle className="w-4 h-4" />
-              {error}
-            </div>
-          )}
+            {error && (
+              <div className="flex items-center text-sm text-red-500 gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === "login" ? "register" : "login");
+                setError("");
+              }}
+              className="w-full text-sm text-muted-foreground hover:text-red-600"
+            >
+              {mode === "login" ? "Need an account? Register" : "Already have an account? Log in"}
+            </button>
+          </form>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,88 @@
+import * as React from "react"
+import { getSocket, PresenceUser, RealtimeEvent, RealtimeSubscription } from "@/lib/socket"
+
+// One handler per event name, each typed with its own payload
+type RealtimeHandlers<Events> = { [Name in keyof Events]: (event: RealtimeEvent<Events[Name]>) => void }
+
+/**
+ * Subscribe to server events matching `subscription` under `key`, and call the
+ * handler registered for each event name. Pass null to stay unsubscribed.
+ * The subscription is re-sent after a reconnect.
+ */
+export function useRealtime<Events extends Record<string, unknown>>(
+  key: string,
+  subscription: RealtimeSubscription | null,
+  handlers: RealtimeHandlers<Events>,
+) {
+  const handlersRef = React.useRef(handlers)
+  handlersRef.current = handlers
+
+  // Compare by value so callers can pass inline objects
+  const serialized = subscription ? JSON.stringify(subscription) : null
+
+  React.useEffect(() => {
+    if (!serialized) return
+    const socket = getSocket()
+    const subscribe = () => {
+      socket.emit("subscribe", { key, ...JSON.parse(serialized) }, (reply: { ok: boolean; error?: string }) => {
+        if (!reply?.ok) console.error(`Realtime subscription "${key}" failed:`, reply?.error)
+      })
+    }
+
+    subscribe()
+    socket.on("connect", subscribe)
+    return () => {
+      socket.off("connect", subscribe)
+      socket.emit("unsubscribe", { key })
+    }
+  }, [key, serialized])
+
+  const eventNames = Object.keys(handlers).sort().join(",")
+
+  React.useEffect(() => {
+    const socket = getSocket()
+    // The socket is untyped; each event is trusted to carry the payload its handler declares
+    const dispatch = <Name extends keyof Events>(name: Name, event: RealtimeEvent<Events[Name]>) => handlersRef.current[name]?.(event)
+    const listeners = eventNames.split(",").filter(Boolean).map((name) => {
+      const listener = (event: RealtimeEvent<Events[keyof Events]>) => dispatch(name as keyof Events, event)
+      socket.on(name, listener)
+      return [name, listener] as const
+    })
+    return () => {
+      listeners.forEach(([name, listener]) => socket.off(name, listener))
+    }
+  }, [eventNames])
+}
+
+/**
+ * Users currently online in a disaster, kept up to date over the socket.
+ * Requires the presence:view permission; pass enabled=false for other users.
+ */
+export function usePresence(disasterId: string | number, enabled: boolean) {
+  const [users, setUsers] = React.useState<PresenceUser[]>([])
+
+  React.useEffect(() => {
+    if (!enabled) return
+    const socket = getSocket()
+    const onUpdate = (update: { disasterId: string; users: PresenceUser[] }) => {
+      if (String(update.disasterId) === String(disasterId)) setUsers(update.users)
+    }
+    const watch = () => {
+      socket.emit("watch_presence", disasterId, (reply: { ok: boolean; users?: PresenceUser[]; error?: string }) => {
+        if (reply?.ok) setUsers(reply.users || [])
+        else console.error("Presence watch failed:", reply?.error)
+      })
+    }
+
+    watch()
+    socket.on("connect", watch)
+    socket.on("presence_updated", onUpdate)
+    return () => {
+      socket.off("connect", watch)
+      socket.off("presence_updated", onUpdate)
+      socket.emit("unwatch_presence", disasterId)
+    }
+  }, [disasterId, enabled])
+
+  return users
+}
@@ -0,0 +1,57 @@
+// Shared Socket.IO connection to the backend, created on first use.
+// The handshake carries the same access token as REST requests.
+import { io, Socket } from "socket.io-client";
+import { getAccessToken, refreshSession } from "@/lib/userSession";
+
+// Defaults to the origin of NEXT_PUBLIC_API_URL, or the current origin when the API is proxied
+function resolveSocketUrl(): string | undefined {
+  if (process.env.NEXT_PUBLIC_SOCKET_URL) return process.env.NEXT_PUBLIC_SOCKET_URL;
+  const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+  if (apiUrl && /^https?:\/\//.test(apiUrl)) return new URL(apiUrl).origin;
+  return undefined;
+}
+
+let socket: Socket | null = null;
+
+export function getSocket(): Socket {
+  if (!socket) {
+    const url = resolveSocketUrl();
+    // auth as a callback so every reconnect picks up the latest token
+    const options = { auth: (cb: (data: object) => void) => cb({ token: getAccessToken() }) };
+    const created = url ? io(url, options) : io(options);
+
+    // The server rejects expired tokens; refresh once and try again
+    created.on("connect_error", async (err) => {
+      if (err.message.includes("expired") && (await refreshSession())) {
+        created.connect();
+      }
+    });
+    socket = created;
+  }
+  return socket;
+}
+
+export function disconnectSocket() {
+  socket?.disconnect();
+  socket = null;
+}
+
+export interface RealtimeSubscription {
+  disasterIds?: (string | number)[];
+  // [minLon, minLat, maxLon, maxLat]
+  bbox?: [number, number, number, number];
+  tags?: string[];
+}
+
+export interface PresenceUser {
+  id: string;
+  username: string;
+  role: string;
+  since: string;
+  connections: number;
+}
+
+export interface RealtimeEvent<T> {
+  type: "CREATE" | "UPDATE" | "DELETE";
+  payload: T;
+}
@@ -1,13 +1,115 @@
-// Utility to get userId from localStorage and add to headers
-export function withUserIdHeader(init: RequestInit = {}): RequestInit {
-  if (typeof window === "undefined") return init;
-  const userId = localStorage.getItem("userId");
-  if (!userId) return init;
+// Stores the signed-in user and their tokens in localStorage, and adds the
+// access token to API requests (refreshing it once when it has expired).
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "/api";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const USER_KEY = "user";
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: string;
+  permissions: string[];
+}
+
+interface AuthResponse {
+  user: SessionUser;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export function getSessionUser(): SessionUser | null {
+  if (typeof window === "undefined") return null;
+  const raw = localStorage.getItem(USER_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as SessionUser;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the signed-in user's role grants a permission such as "disaster:create"
+export function hasPermission(permission: string): boolean {
+  return getSessionUser()?.permissions?.includes(permission) ?? false;
+}
+
+export function getAccessToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+function saveSession({ user, accessToken, refreshToken }: AuthResponse) {
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearSession() {
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Utility to add the access token to request headers
+export function withAuthHeader(init: RequestInit = {}): RequestInit {
+  const token = getAccessToken();
+  if (!token) return init;
   return {
     ...init,
     headers: {
       ...(init.headers || {}),
-      "x-user-id": userId,
+      Authorization: `Bearer ${token}`,
     },
   };
 }
+
+async function postAuth(path: string, body: object): Promise<AuthResponse> {
+  const response = await fetch(`${API_URL}/auth/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || "Authentication failed.");
+  }
+  return data as AuthResponse;
+}
+
+export async function login(username: string, password: string): Promise<SessionUser> {
+  const session = await postAuth("login", { username, password });
+  saveSession(session);
+  return session.user;
+}
+
+export async function register(username: string, password: string): Promise<SessionUser> {
+  const session = await postAuth("register", { username, password });
+  saveSession(session);
+  return session.user;
+}
+
+export async function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+  try {
+    saveSession(await postAuth("refresh", { refreshToken }));
+    return true;
+  } catch {
+    clearSession();
+    return false;
+  }
+}
+
+export async function logout() {
+  await fetch(`${API_URL}/auth/logout`, withAuthHeader({ method: "POST" })).catch(() => undefined);
+  clearSession();
+}
+
+// fetch() with the access token attached; retries once after refreshing an expired token
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, withAuthHeader(init));
+  if (response.status !== 401 || !(await refreshSession())) return response;
+  return fetch(input, withAuthHeader(init));
+}